@@ -0,0 +1,223 @@
+﻿/// <reference path="engine.ts" />
+
+// A bot that picks where to put the current piece. It is used for the autoplay
+// demo, for the hint and for comparing heuristics without a browser.
+
+// Weights of the features of the field after a placement, the placement with
+// the highest weighted sum wins. Penalties have negative weights.
+interface BotWeights {
+    height: number;  // sum of the heights of all columns
+    holes: number;  // empty cells below the top cell of their column
+    bumpiness: number;  // sum of the height differences of neighbouring columns
+    lines: number;  // rows cleared by the placement
+}
+
+interface Placement {
+    rotation: number;
+    position: Vec2;  // of the lower left corner of the piece matrix, where it lands
+    lines: number;  // rows it clears
+    score: number;  // of the heuristic, including the next piece with lookahead
+}
+
+class Bot {
+    // Found by a genetic search for this set of features (Yiyuan Lee, 2013).
+    static DEFAULT_WEIGHTS: BotWeights = {
+        height: -0.510066,
+        holes: -0.35663,
+        bumpiness: -0.184483,
+        lines: 0.760666,
+    };
+
+    weights: BotWeights;
+    lookahead: boolean;  // also place the next piece before judging a placement
+
+    constructor(weights: BotWeights = null, lookahead: boolean = true) {
+        this.weights = weights ? cloneData(weights) : cloneData(Bot.DEFAULT_WEIGHTS);
+        this.lookahead = lookahead;
+    }
+
+    // Best placement of the current piece of the state, null if there is no piece
+    // or it cannot go anywhere.
+    best(state: GameState, pieces: number[][][][]): Placement {
+        if (!state.piece)
+            return null;
+
+        var best: Placement = null;
+        this.placements(state.field, pieces[state.piece.index], state.piece.rotation, state.piece.position).forEach((placement) => {
+            if (this.lookahead && state.nextPieces.length > 0) {
+                var field = Bot.place(state.field, pieces[state.piece.index][placement.rotation], placement.position);
+                Bot.clearLines(field);
+                var states = pieces[state.nextPieces[0]];
+                var spawn = GameEngine.spawnPosition(field, states[0]);
+                var next = this.placements(field, states, 0, spawn);
+                if (next.length == 0) {
+                    placement.score = -Infinity;  // tops out
+                } else {
+                    placement.score = Math.max.apply(null, next.map((p) => p.score)) + placement.lines * this.weights.lines;
+                }
+            }
+            if (!best || placement.score > best.score) {
+                best = placement;
+            }
+        });
+        return best;
+    }
+
+    // Every placement the piece can reach from where it is by rotating in place,
+    // moving sideways and dropping straight down, scored without lookahead.
+    placements(field: Array2D<number>, states: number[][][], rotation: number, position: Vec2): Placement[] {
+        var result: Placement[] = [];
+        for (var r = 0; r < states.length; ++r) {
+            var piece = states[r];
+            if (GameEngine.collides(field, piece, position))
+                continue;
+            // Sideways until something is in the way.
+            [-1, 1].forEach((direction) => {
+                var x = direction < 0 ? position.x : position.x + 1;
+                while (!GameEngine.collides(field, piece, new Vec2(x, position.y))) {
+                    var landing = new Vec2(x, position.y);
+                    while (!GameEngine.collides(field, piece, new Vec2(landing.x, landing.y - 1))) {
+                        --landing.y;
+                    }
+                    var placed = Bot.place(field, piece, landing);
+                    var lines = Bot.clearLines(placed);
+                    result.push({
+                        rotation: r,
+                        position: landing,
+                        lines: lines,
+                        score: this.evaluate(placed, lines),
+                    });
+                    x += direction;
+                }
+            });
+        }
+        return result;
+    }
+
+    // Heuristic value of a field with the full rows already removed.
+    evaluate(field: Array2D<number>, lines: number): number {
+        var heights: number[] = [];
+        var holes = 0;
+        for (var x = 0; x < field.width; ++x) {
+            var height = 0;
+            for (var y = field.height - 1; y >= 0; --y) {
+                if (field.get(x, y) != 0) {
+                    if (height == 0) {
+                        height = y + 1;
+                    }
+                } else if (height > 0) {
+                    ++holes;
+                }
+            }
+            heights.push(height);
+        }
+
+        var aggregate = 0;
+        var bumpiness = 0;
+        heights.forEach((height, x) => {
+            aggregate += height;
+            if (x > 0) {
+                bumpiness += Math.abs(height - heights[x - 1]);
+            }
+        });
+        return this.weights.height * aggregate + this.weights.holes * holes +
+            this.weights.bumpiness * bumpiness + this.weights.lines * lines;
+    }
+
+    // The next input that brings the piece closer to the placement, a hard drop once it is there.
+    static nextAction(piece: ActivePiece, placement: Placement): GameAction {
+        if (piece.rotation != placement.rotation) {
+            // Right for pieces with one, two or four rotation states.
+            var turns = (placement.rotation - piece.rotation + 4) % 4;
+            return turns == 1 ? GameAction.RotateCW : (turns == 2 ? GameAction.Rotate180 : GameAction.RotateCCW);
+        } else if (piece.position.x > placement.position.x) {
+            return GameAction.MoveLeft;
+        } else if (piece.position.x < placement.position.x) {
+            return GameAction.MoveRight;
+        }
+        return GameAction.HardDrop;
+    }
+
+    // Copy of the field with the piece in it.
+    static place(field: Array2D<number>, piece: number[][], position: Vec2): Array2D<number> {
+        var result = field.clone();
+        for (var y = 0; y < piece.length; ++y) {
+            for (var x = 0; x < piece[y].length; ++x) {
+                if (piece[y][x] == 1) {
+                    result.set(position.x + x, position.y + y, 1);
+                }
+            }
+        }
+        return result;
+    }
+
+    // Removes the full rows of the field in place, returns how many there were.
+    static clearLines(field: Array2D<number>): number {
+        var lines = 0;
+        for (var y = 0; y < field.height; ++y) {
+            var full = true;
+            for (var x = 0; x < field.width && full; ++x) {
+                full = field.get(x, y) != 0;
+            }
+            if (full) {
+                ++lines;
+            } else if (lines > 0) {
+                for (var x = 0; x < field.width; ++x) {
+                    field.set(x, y - lines, field.get(x, y));
+                }
+            }
+        }
+        for (var y = field.height - lines; y < field.height; ++y) {
+            for (var x = 0; x < field.width; ++x) {
+                field.set(x, y, 0);
+            }
+        }
+        return lines;
+    }
+}
+
+// Result of a game played by the bot alone.
+interface BotResult {
+    score: number;
+    lines: number;
+    level: number;
+    pieces: number;
+    gameOver: boolean;  // false if it stopped at the piece limit
+}
+
+// Lets the bot play a whole game as fast as possible, e.g. to compare weights
+// from Node. Stops after maxPieces pieces if the bot does not top out before.
+function playBot(rules: GameRules, bot: Bot, maxPieces: number): BotResult {
+    var engine = new GameEngine(rules);
+    var pieces = 0;
+    engine.onEvent = (event) => {
+        if (event.type == GameEventType.Lock) {
+            ++pieces;
+        }
+    };
+    while (!engine.state.gameOver && pieces < maxPieces) {
+        var state = engine.state;
+        if (!state.piece) {
+            // Waiting for the line clear delay.
+            engine.tick(GameEngine.FRAME_TIME);
+            continue;
+        }
+        var placement = bot.best(state, engine.pieces);
+        if (!placement) {
+            engine.applyInput(GameAction.HardDrop);
+            continue;
+        }
+        // Blocked moves are cut short by the hard drop.
+        for (var i = 0; i < 16; ++i) {
+            var action = Bot.nextAction(engine.state.piece, placement);
+            engine.applyInput(action);
+            if (action == GameAction.HardDrop)
+                break;
+        }
+        if (i == 16) {
+            engine.applyInput(GameAction.HardDrop);
+        }
+    }
+    var last = engine.state;
+    return { score: last.score, lines: last.lines, level: last.level, pieces: pieces, gameOver: last.gameOver };
+}
@@ -1,327 +1,478 @@
-﻿
-var VERTEX_SHADER = `
-    precision mediump float;
-
-    attribute vec2 vertexPosition;
-
-    uniform mat3 modelMatrix;
-    uniform mat3 projectionMatrix;
-    uniform mat3 texMatrix;
+﻿/// <reference path="ai.ts" />
+/// <reference path="audio.ts" />
+/// <reference path="controls.ts" />
+/// <reference path="engine.ts" />
+/// <reference path="highscores.ts" />
+/// <reference path="hud.ts" />
+/// <reference path="input.ts" />
+/// <reference path="loop.ts" />
+/// <reference path="network.ts" />
+/// <reference path="puzzles.ts" />
+/// <reference path="replay.ts" />
+/// <reference path="touch.ts" />
+/// <reference path="versus.ts" />
+/// <reference path="canvas.ts" />
+/// <reference path="webgl.ts" />
+
+// Picks the renderer for the canvas: kind is "webgl", "canvas" or null for
+// WebGL if available. Returns null if the kind is not supported.
+function createRenderer(canvas: HTMLCanvasElement, kind: string): Renderer {
+    if (kind == null || kind == "webgl") {
+        var gl = initWebGl(canvas);
+        if (gl) {
+            return new WebGlRenderer(gl);
+        }
+        if (kind == "webgl") {
+            return null;
+        }
+    }
+    if (kind == null || kind == "canvas") {
+        var context = canvas.getContext("2d");
+        if (context) {
+            return new CanvasRenderer(context);
+        }
+        return null;
+    }
+    throw "Unknown renderer: " + kind;
+}
 
-    varying vec2 texCoord;
+// Parses "?a=1&b=2" into { a: "1", b: "2" }.
+function parseQuery(query: string): { [key: string]: string } {
+    var result: { [key: string]: string } = {};
+    query.replace(/^\?/, "").split("&").forEach((pair) => {
+        if (pair.length == 0)
+            return;
+        var parts = pair.split("=");
+        result[decodeURIComponent(parts[0])] = decodeURIComponent(parts.slice(1).join("="));
+    });
+    return result;
+}
 
-    void main() {
-        vec3 position = projectionMatrix * modelMatrix * vec3(vertexPosition, 1.0);
-        gl_Position = vec4(position.xy, 0.0, 1.0);
-        texCoord = (texMatrix * vec3(vertexPosition.x, 1.0 - vertexPosition.y, 1.0)).xy;
+// Game rules chosen by the page URL, e.g. "?randomizer=history&seed=1a2b3c4d&rotation=classic".
+function rulesFromQuery(query: { [key: string]: string }): GameRules {
+    var rules = GameEngine.defaultRules();
+    if (query["randomizer"]) {
+        rules.randomizer = query["randomizer"];
+    }
+    if (query["seed"]) {
+        rules.seed = parseInt(query["seed"], 16) >>> 0;
+    }
+    if (query["rotation"]) {
+        rules.rotation = query["rotation"];
     }
-`;
+    if (query["lockdelay"]) {
+        rules.lockDelay = parseInt(query["lockdelay"], 10);
+    }
+    if (query["lockresets"]) {
+        rules.lockResets = parseInt(query["lockresets"], 10);
+    }
+    if (query["scoring"]) {
+        rules.scoring = query["scoring"];
+    }
+    if (query["lineclear"]) {
+        rules.lineClearDelay = parseInt(query["lineclear"], 10);
+    }
+    if (query["width"]) {
+        rules.width = parseInt(query["width"], 10);
+    }
+    if (query["height"]) {
+        rules.height = parseInt(query["height"], 10);
+    }
+    if (query["mode"]) {
+        rules.mode = query["mode"];
+    }
+    return rules;
+}
 
-var FRAGMENT_SHADER = `
-    precision mediump float;
+// Pieces in the next queue, ?next takes 1 to GameEngine.NEXT_PIECES.
+function nextQueueFromQuery(query: { [key: string]: string }): number {
+    if (!query["next"])
+        return Game.NEXT_QUEUE;
+    var count = parseInt(query["next"], 10);
+    if (!(count >= 1 && count <= GameEngine.NEXT_PIECES))
+        throw "The next queue shows 1 to " + GameEngine.NEXT_PIECES + " pieces";
+    return count;
+}
 
-    varying vec2 texCoord;
+// URL of a piece set, either a set shipped in pieces/ by name or any URL of a .json file.
+function pieceSetUrl(name: string): string {
+    return /\.json$/.test(name) ? name : "pieces/" + name + ".json";
+}
 
-    uniform bool loaded;
-    uniform sampler2D texture;
+// URL of a puzzle pack, like pieceSetUrl for the packs in puzzles/.
+function puzzlePackUrl(name: string): string {
+    return /\.json$/.test(name) ? name : "puzzles/" + name + ".json";
+}
 
-    void main() {
-        if (loaded) {
-            vec4 color = texture2D(texture, texCoord);
-            gl_FragColor = color;
+// Fetches a text file, calls done with its content or fail with a message.
+function loadText(url: string, done: (text: string) => void, fail: (message: string) => void): void {
+    var request = new XMLHttpRequest();
+    request.onload = () => {
+        if (request.status >= 200 && request.status < 300) {
+            done(request.responseText);
         } else {
-            gl_FragColor = vec4(1.0, 0.0, 1.0, 1.0);
+            fail(url + ": " + request.status + " " + request.statusText);
         }
-    }
-`;
-
-var UNIFORM_MODEL_MATRIX: WebGLUniformLocation;
-var UNIFORM_PROJECTION_MATRIX: WebGLUniformLocation;
-var UNIFORM_LOADED: WebGLUniformLocation;
-var UNIFORM_TEXTURE: WebGLUniformLocation;
-var UNIFORM_TEX_MATRIX: WebGLUniformLocation;
+    };
+    request.onerror = () => fail(url + ": request failed");
+    request.open("GET", url);
+    request.send();
+}
 
-function initWebGl(canvas: HTMLCanvasElement): WebGLRenderingContext {
-    try {
-        return (canvas.getContext("webgl") || canvas.getContext("experimental-webgl"));
-    } catch (e) {
-        return null;
-    }
+// Makes the canvas as large as it is shown, in device pixels so that it stays
+// sharp on HiDPI screens. Returns whether the size changed.
+function fitCanvas(canvas: HTMLCanvasElement): boolean {
+    var ratio = window.devicePixelRatio || 1;
+    var width = Math.round(canvas.clientWidth * ratio);
+    var height = Math.round(canvas.clientHeight * ratio);
+    if (width == canvas.width && height == canvas.height)
+        return false;
+    canvas.width = width;
+    canvas.height = height;
+    return true;
 }
 
-function compileShader(gl: WebGLRenderingContext, shaderType: number, shaderSource: string): WebGLShader {
-    var shader = gl.createShader(shaderType);
-    gl.shaderSource(shader, shaderSource);
-    gl.compileShader(shader);
-    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
-        console.log("Error while compiling shader");
-        console.log(gl.getShaderInfoLog(shader));
+// Shows the element on the whole screen, or leaves fullscreen if it is already.
+function toggleFullscreen(element: HTMLElement): void {
+    // Still prefixed in some browsers.
+    var doc = <any> document;
+    var e = <any> element;
+    if (doc.fullscreenElement || doc.webkitFullscreenElement || doc.mozFullScreenElement || doc.msFullscreenElement) {
+        (doc.exitFullscreen || doc.webkitExitFullscreen || doc.mozCancelFullScreen || doc.msExitFullscreen).call(doc);
+    } else {
+        var request = e.requestFullscreen || e.webkitRequestFullscreen || e.mozRequestFullScreen || e.msRequestFullscreen;
+        if (request) {
+            request.call(e);
+        }
     }
-    return shader;
 }
 
-function initPipeline(gl: WebGLRenderingContext): void {
-    var vertexShader = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
-    var fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
-    var program = gl.createProgram();
-    gl.attachShader(program, vertexShader);
-    gl.attachShader(program, fragmentShader);
-    gl.linkProgram(program);
-    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
-        console.log("Error while linking program");
-        console.log(gl.getProgramInfoLog(program));
-    }
-    gl.useProgram(program);
-
-    UNIFORM_MODEL_MATRIX = gl.getUniformLocation(program, "modelMatrix");
-    UNIFORM_PROJECTION_MATRIX = gl.getUniformLocation(program, "projectionMatrix");
-    UNIFORM_LOADED = gl.getUniformLocation(program, "loaded");
-    UNIFORM_TEXTURE = gl.getUniformLocation(program, "texture");
-    UNIFORM_TEX_MATRIX = gl.getUniformLocation(program, "texMatrix");
-
-    var projectionMatrix = new Float32Array([
-        // column major
-        2.0, 0.0, 0.0,
-        0.0, 2.0, 0.0,
-        -1.0, -1.0, 1.0,
-    ]);
-    gl.uniformMatrix3fv(UNIFORM_PROJECTION_MATRIX, false, projectionMatrix);
-    gl.uniform1i(UNIFORM_TEXTURE, 0);
-
-    gl.clearColor(0.5, 0.5, 0.5, 1);
-
-    gl.enable(gl.BLEND);
-    gl.blendEquation(gl.FUNC_ADD);
-    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+// Lets the browser save the text as a file.
+function downloadText(filename: string, text: string): void {
+    var link = document.createElement("a");
+    link.href = URL.createObjectURL(new Blob([text], { type: "application/json" }));
+    link.setAttribute("download", filename);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
 }
 
 window.onload = () => {
     var canvas = <HTMLCanvasElement> document.getElementById("glcanvas");
-    var gl = initWebGl(canvas);
-    if (!gl) {
-        alert("WebGL not supported!");
+    fitCanvas(canvas);
+    var query = parseQuery(window.location.search);
+    var renderer: Renderer;
+    try {
+        renderer = createRenderer(canvas, query["renderer"] || null);
+    } catch (e) {
+        alert(e);
         return;
     }
-    initPipeline(gl);
-    var game = new Game(gl);
-    window.onkeydown = game.handleKeypress.bind(game);
-    setInterval(game.render.bind(game, gl), 1.0 / 60.0);
-};
-
-class Vec2 {
-    constructor(public x: number = 0, public y: number = 0) {
+    if (!renderer) {
+        alert("Renderer not supported!");
+        return;
     }
-}
 
-class Vec3 {
-    constructor(public x: number = 0, public y: number = 0, public z: number = 0) {
+    var rules = rulesFromQuery(query);
+    if (query["pieces"]) {
+        loadText(pieceSetUrl(query["pieces"]), (text) => {
+            try {
+                rules.pieceSet = parsePieceSet(text);
+                Game.checkRules(rules);
+            } catch (e) {
+                alert("Could not load the piece set: " + e);
+                return;
+            }
+            startGame(canvas, renderer, query, rules);
+        }, (message) => alert("Could not load the piece set: " + message));
+    } else {
+        startGame(canvas, renderer, query, rules);
     }
+};
+
+// The audio with its volume sliders, it starts with the first user gesture.
+function createAudio(storage: Storage): AudioSystem {
+    var audio = new AudioSystem(storage);
+    ["keydown", "mousedown", "touchstart"].forEach((type) => {
+        window.addEventListener(type, () => audio.unlock(), true);
+    });
+    ["master", "effects", "music"].forEach((kind) => {
+        var slider = <HTMLInputElement> document.getElementById("volume-" + kind);
+        slider.value = "" + Math.round(audio.volume(kind) * 100);
+        slider.oninput = slider.onchange = () => audio.setVolume(kind, parseInt(slider.value, 10) / 100);
+    });
+    return audio;
 }
 
-class Array2D<T> {
-    private data: T[];
-    private width_: number;
-    private height_: number;
-    
-    constructor(width: number, height: number, init: T = null) {
-        this.data = new Array<T>(width * height);
-        for (var i = 0; i < this.data.length; ++i) {
-            this.data[i] = init;
-        }
-        this.width_ = width;
-        this.height_ = height;
+function startGame(canvas: HTMLCanvasElement, renderer: Renderer, query: { [key: string]: string }, rules: GameRules): void {
+    try {
+        Game.checkRules(rules);
+        nextQueueFromQuery(query);
+    } catch (e) {
+        alert(e);
+        return;
     }
-
-    get size(): Vec2 {
-        return new Vec2(this.width, this.height);
+    var storage: Storage = null;
+    try {
+        storage = window.localStorage;
+    } catch (e) {
+        // Blocked by the browser, the scores are only kept until the page is closed.
     }
-
-    get width(): number {
-        return this.width_;
+    var audio = createAudio(storage);
+    if (query["versus"]) {
+        startVersus(canvas, renderer, query, rules, audio);
+        return;
     }
-
-    get height(): number {
-        return this.height_;
+    if (query["server"]) {
+        startNetwork(canvas, renderer, query, rules, storage, audio);
+        return;
     }
 
-    get(x: number, y: number): T {
-        if (x < 0 || x >= this.width) throw "Index out of bounds (" + x + "/" + y + ")";
-        if (y < 0 || y >= this.height) throw "Index out of bounds (" + x + "/" + y + ")";
-        return this.data[y * this.width + x];
+    var highScores = new HighScoreTable(storage);
+    var game = new Game(renderer, rules, highScores, new Controls(storage), audio, !!query["seed"]);
+    game.nextQueue = nextQueueFromQuery(query);
+    if (query["das"]) {
+        game.autoShift.das = parseInt(query["das"], 10);
     }
-
-    set(x: number, y: number, value: T) {
-        if (x < 0 || x >= this.width) throw "Index out of bounds (" + x + "/" + y + ")";
-        if (y < 0 || y >= this.height) throw "Index out of bounds (" + x + "/" + y + ")";
-        this.data[y * this.width + x] = value;
+    if (query["arr"]) {
+        game.autoShift.arr = parseInt(query["arr"], 10);
     }
-}
-
-class SpriteImage {
-    private texture: WebGLTexture;
-
-    private loaded: boolean;
-    private image: HTMLImageElement;
-
-    constructor(path: string) {
-        this.texture = null;
-        this.loaded = false;
-
-        this.image = new Image();
-        this.image.onload = () => {
-            this.loaded = true;
-        }
-        this.image.src = path + ".png";
+    window.onkeydown = game.handleKeypress.bind(game);
+    window.onkeyup = game.handleKeyup.bind(game);
+    window.onblur = game.handleBlur.bind(game);
+
+    var press = game.press.bind(game);
+    var release = game.release.bind(game);
+    // The canvas has device pixels, touches come in CSS pixels.
+    var touch = new TouchInput(canvas, () => game.cellPixels / (window.devicePixelRatio || 1), press, release);
+    if (query["touch"]) {
+        touch.sensitivity = parseFloat(query["touch"]);
+    }
+    if (query["bot"]) {
+        // Weights of the bot heuristic: height, holes, bumpiness and lines.
+        var weights = query["bot"].split(",").map(parseFloat);
+        game.bot.weights = { height: weights[0], holes: weights[1], bumpiness: weights[2], lines: weights[3] };
+    }
+    if (query["lookahead"]) {
+        game.bot.lookahead = query["lookahead"] != "0";
+    }
+    game.hint = !!query["hint"];
+    if (query["autoplay"]) {
+        game.toggleAutoplay();
     }
 
-    private upload(gl: WebGLRenderingContext): void {
-        this.texture = gl.createTexture();
-        gl.bindTexture(gl.TEXTURE_2D, this.texture);
-        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, this.image);
-        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
-        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR_MIPMAP_LINEAR);
-        gl.generateMipmap(gl.TEXTURE_2D);
-        this.image = null;
+    var buttons = document.getElementById("touch-buttons");
+    bindControlButtons(buttons, press, release);
+    if (query["buttons"]) {
+        buttons.style.display = "";
     }
 
-    bind(gl: WebGLRenderingContext): void {
-        if (this.loaded) {
-            if (!this.texture) {
-                this.upload(gl);
+    document.getElementById("fullscreen").onclick = () => toggleFullscreen(document.getElementById("game"));
+    document.getElementById("controls").onclick = () => game.showControls();
+    document.getElementById("export-replay").onclick = () => {
+        downloadText("tetris-" + Game.seedText(game.replay.rules.seed) + ".replay.json", ReplayRecorder.toJson(game.replay));
+    };
+    var importReplay = <HTMLInputElement> document.getElementById("import-replay");
+    importReplay.onchange = () => {
+        if (importReplay.files.length == 0)
+            return;
+        var reader = new FileReader();
+        reader.onload = () => {
+            try {
+                game.watchReplay(ReplayRecorder.fromJson(reader.result));
+            } catch (e) {
+                alert("Could not load the replay: " + e);
             }
-            gl.activeTexture(gl.TEXTURE0);
-            gl.bindTexture(gl.TEXTURE_2D, this.texture);
-            gl.uniform1i(UNIFORM_LOADED, 1);
-        } else {
-            gl.uniform1i(UNIFORM_LOADED, 0);
+            importReplay.value = "";
+        };
+        reader.readAsText(importReplay.files[0]);
+    };
+    document.getElementById("export-board").onclick = () => {
+        try {
+            var pack: PuzzlePack = { name: "exported", puzzles: [puzzleFromState(game.state, "EXPORTED")] };
+            downloadText("tetris-board.puzzles.json", JSON.stringify(pack, null, 4));
+        } catch (e) {
+            alert("Could not export the board: " + e);
         }
+    };
+    if (query["puzzles"]) {
+        loadText(puzzlePackUrl(query["puzzles"]), (text) => {
+            try {
+                game.loadPuzzles(parsePuzzlePack(text), new PuzzleProgress(storage));
+            } catch (e) {
+                alert("Could not load the puzzles: " + e);
+            }
+        }, (message) => alert("Could not load the puzzles: " + message));
     }
+    document.getElementById("export-scores").onclick = () => {
+        downloadText("tetris-highscores.json", HighScoreTable.toJson(highScores.all));
+    };
+    var importScores = <HTMLInputElement> document.getElementById("import-scores");
+    importScores.onchange = () => {
+        if (importScores.files.length == 0)
+            return;
+        var reader = new FileReader();
+        reader.onload = () => {
+            try {
+                var added = highScores.merge(HighScoreTable.fromJson(reader.result));
+                alert(added + " new high scores loaded.");
+            } catch (e) {
+                alert("Could not load the high scores: " + e);
+            }
+            importScores.value = "";
+        };
+        reader.readAsText(importScores.files[0]);
+    };
+
+    var showFps = !!query["fps"];
+    var loop = new MainLoop(GameEngine.FRAME_TIME, (dt) => game.update(dt), () => {
+        if (showFps) {
+            game.setDebugText(Math.round(loop.fps) + " FPS " + loop.frameTime.toFixed(1) + " MS");
+        }
+        // Also catches fullscreen changes and zooming, which change the pixel ratio.
+        if (fitCanvas(canvas)) {
+            renderer.resize(canvas.width, canvas.height);
+        }
+        game.render();
+    });
+    loop.start();
 }
 
-class Sprite {
-    static DUMMY_IMAGE = new SpriteImage("dummy");
-
-    position: Vec3;  // absolute position [0; 1]
-    size: Vec2;  // absolute size [0; 1]
-    visible: boolean;  // is visible?
-    image: SpriteImage;  // image to display
-    textureSize: Vec2;  // absolute size of one texture tile (null allowed)
-    textureOffset: Vec2;  // offset (in texture coordinates)
-
-    constructor() {
-        this.position = new Vec3();
-        this.size = new Vec2(1, 1);
-        this.visible = true;
-        this.image = Sprite.DUMMY_IMAGE;
-        this.textureSize = null;
-        this.textureOffset = new Vec2(0, 0);
-    }
+interface Particle {
+    position: Vec2;  // absolute position [0; 1] of the center
+    velocity: Vec2;  // per second
+    size: number;
+    age: number;  // ms
+    life: number;  // ms
+    image: number;  // index into Game.CELLS
 }
 
-class SpriteRenderer {
-    private buffer: WebGLBuffer;
+// Small fading bits of cells for line clears and hard drops.
+class ParticleSystem {
+    static GRAVITY = -1.5;  // per second squared
 
-    constructor(gl: WebGLRenderingContext) {
-        var data = new Float32Array([
-          //  x,   y,
-            0.0, 0.0,
-            1.0, 0.0,
-            0.0, 1.0,
-            1.0, 1.0,
-        ]);
+    private particles: Particle[];
+    private sprite: Sprite;
 
-        this.buffer = gl.createBuffer();
-        gl.bindBuffer(gl.ARRAY_BUFFER, this.buffer);
-        gl.bufferData(gl.ARRAY_BUFFER, data, gl.STATIC_DRAW);
+    constructor(private images: SpriteImage[]) {
+        this.particles = [];
+        this.sprite = new Sprite();
     }
 
-    render(gl: WebGLRenderingContext, sprite: Sprite): void {
-        if (!sprite.visible)
-            return;
-
-        var modelMatrix = new Float32Array([
-            // column major!
-            sprite.size.x,     0.0,               0.0,
-            0.0,               sprite.size.y,     0.0,
-            sprite.position.x, sprite.position.y, 1.0,
-        ]);
-        gl.uniformMatrix3fv(UNIFORM_MODEL_MATRIX, false, modelMatrix);
-
-        var texX: number, texY: number;
-        if (sprite.textureSize) {
-            texX = sprite.textureSize.x;
-            texY = sprite.textureSize.y;
-        } else {
-            texX = sprite.size.x;
-            texY = sprite.size.y;
+    // Spawns count particles at position flying up and to the sides.
+    burst(position: Vec2, image: number, count: number, speed: number, size: number, life: number): void {
+        for (var i = 0; i < count; ++i) {
+            var angle = Math.PI * (0.1 + 0.8 * Math.random());
+            var v = speed * (0.5 + Math.random());
+            this.particles.push({
+                position: new Vec2(position.x, position.y),
+                velocity: new Vec2(Math.cos(angle) * v, Math.sin(angle) * v),
+                size: size * (0.5 + 0.5 * Math.random()),
+                age: 0,
+                life: life * (0.75 + 0.5 * Math.random()),
+                image: image,
+            });
         }
-        var texMatrix = new Float32Array([
-            // column major!
-            sprite.size.x / texX, 0.0, 0.0,
-            0.0, sprite.size.y / texY, 0.0,
-            sprite.textureOffset.x, sprite.textureOffset.y, 1.0,
-        ]);
-        gl.uniformMatrix3fv(UNIFORM_TEX_MATRIX, false, texMatrix);
-
-        sprite.image.bind(gl);
-
-        gl.bindBuffer(gl.ARRAY_BUFFER, this.buffer);
-        gl.enableVertexAttribArray(0);
-        gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
-        gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
-        gl.disableVertexAttribArray(0);
     }
-}
 
-class GameText {
-    constructor(
-        public text: string,
-        public position: Vec3,
-        public visible: boolean = true) {
+    clear(): void {
+        this.particles = [];
     }
-}
-
-class TextRenderer {
-
-    private spriteRenderer: SpriteRenderer;
-    private sprite: Sprite;
-    private charSizeTexture: Vec2;
-
-    constructor(gl: WebGLRenderingContext, font: string, charSizeScreen: Vec2, charSizeTexture: Vec2) {
-        this.spriteRenderer = new SpriteRenderer(gl);
-        this.charSizeTexture = charSizeTexture;
 
-        this.sprite = new Sprite();
-        this.sprite.size = charSizeScreen;
-        this.sprite.image = new SpriteImage(font);
-        this.sprite.textureSize = new Vec2(
-            this.sprite.size.x / charSizeTexture.x,
-            this.sprite.size.y / charSizeTexture.y);
+    update(dt: number): void {
+        var seconds = dt / 1000;
+        this.particles.forEach((p) => {
+            p.age += dt;
+            p.velocity.y += ParticleSystem.GRAVITY * seconds;
+            p.position.x += p.velocity.x * seconds;
+            p.position.y += p.velocity.y * seconds;
+        });
+        this.particles = this.particles.filter((p) => p.age < p.life);
     }
 
-    render(gl: WebGLRenderingContext, text: GameText): void {
-        if (!text.visible)
-            return;
+    render(renderer: Renderer): void {
+        this.particles.forEach((p) => {
+            var fade = 1 - p.age / p.life;
+            var size = p.size * fade;
+            this.sprite.image = this.images[p.image];
+            this.sprite.size = new Vec2(size, size);
+            this.sprite.position = new Vec3(p.position.x - size / 2, p.position.y - size / 2);
+            this.sprite.alpha = fade;
+            renderer.render(this.sprite);
+        });
+    }
+}
 
-        this.sprite.position = new Vec3(text.position.x, text.position.y, text.position.z);
-        for (var i = 0; i < text.text.length; ++i) {
-            var c = text.text.charCodeAt(i);
+// Text for a scoring award that floats up and fades out.
+interface AwardLabel {
+    text: GameText;
+    age: number;  // ms
+}
 
-            this.sprite.textureOffset = new Vec2(
-                this.charSizeTexture.x * (c % Math.round(1 / this.charSizeTexture.x)),
-                this.charSizeTexture.y * Math.floor(c / Math.round(1 / this.charSizeTexture.x)));
-            this.spriteRenderer.render(gl, this.sprite);
+// Where the side panel shows a piece, see HudItem.
+interface PieceSlot {
+    position: Vec3;  // lower left corner
+    scale: number;
+    width: number;  // of the area the piece is centered in, 0 to draw it right at the position
+}
 
-            this.sprite.position.x += this.sprite.size.x;
-        }
-    }
+// A text of the side panel that shows a value of the game.
+interface HudValue {
+    text: GameText;
+    value: string;  // see Game.HUD_LABELS
+}
 
+enum GamePhase {
+    Ready,  // counting down before the game starts or resumes
+    Playing,
+    Paused,
+    GameOver,
+    NameEntry,  // entering a name for a new high score
+    HighScores,  // showing the high score table of the mode
+    Controls,  // changing the key and button bindings, opened from the pause
+    Result,  // a versus match is over, see resultLines
+    Puzzles,  // picking a puzzle of the pack
+    Replay,  // watching a replay instead of playing
 }
 
 class Game {
-    static UNIT = 1 / 22;
-    static WIDTH = 12;
-    static HEIGHT = 21;
+    static PANEL_WIDTH = 9;  // units right of the field, at least, so the longest texts fit
+    static PREVIEW_SIZE = 4;  // units of a piece in the next box, larger pieces are scaled down
+    static NEXT_QUEUE = 1;  // pieces shown as next by default
+    static GHOST_ALPHA = 0.3;
+    static DAS = 170;
+    static ARR = 50;
+    static COUNTDOWN = 3000;  // ms
+    static OVERLAY_ALPHA = 0.85;
+
+    static KEY_RESTART = ["KeyR", "Enter", "NumpadEnter"];
+    static REPLAY_SEEK = 5000;  // ms the arrow keys seek in a replay
+    static LABEL_SCALE = 0.6;  // award labels are smaller than the other texts
+    static LABEL_TIME = 1500;  // ms an award label is shown
+    static LABEL_RISE = 2;  // units an award label floats up while it is shown
+    static CLEAR_FLASH = 0.6;  // part of the line clear delay the rows flash, the rest they collapse
+    static CLEAR_FLASHES = 3;
+    static KEY_HIGH_SCORES = "KeyL";
+    static KEY_CONTROLS = "KeyK";
+    static KEY_MUTE = "KeyM";
+    static KEY_AUTOPLAY = "KeyB";
+    static KEY_HINT = "KeyH";
+    static BOT_DELAY = 60;  // ms between two inputs of the autoplay, so it can be watched
+    static HINT_LINE = 0.12;  // units, width of the outline of the hint
+    static GARBAGE_ALPHA = 0.5;
+    static GARBAGE_METER = 0.5;  // units, width of the bar of the pending garbage left of the field
+    static BLINK_TIME = 250;  // ms the cursor of the name entry is shown or hidden
+    static BOARD_LINE = 0.8;  // units between two lines of the high score table
+    static HUD_LABELS: { [value: string]: string } = {
+        score: "SCORE",
+        level: "LEVEL",
+        next: "NEXT",  // score of the next level
+        lines: "LINES",
+        time: "TIME",
+        left: "TIME LEFT",
+        goal: "GOAL",  // of the puzzle
+        pps: "PPS",  // pieces per second
+    };
 
     static CELLS = [
         new SpriteImage("block1"),
@@ -333,459 +484,1481 @@ class Game {
         new SpriteImage("block7"),
     ];
     static BG = new SpriteImage("gamebg");
+    static FONT = new SpriteImage("font1");
     static MASTER_BG = new SpriteImage("bg");
 
-    static PIECE_SIZE = 4;
-    static PIECES = [
-        [
-            [
-                [0, 1, 1, 0],
-                [0, 1, 1, 0],
-                [0, 0, 0, 0],
-                [0, 0, 0, 0],
-            ].reverse(),
-        ], [
-            [
-                [0, 0, 1, 0],
-                [0, 1, 1, 0],
-                [0, 1, 0, 0],
-                [0, 0, 0, 0],
-            ].reverse(), [
-                [0, 1, 1, 0],
-                [0, 0, 1, 1],
-                [0, 0, 0, 0],
-                [0, 0, 0, 0],
-            ].reverse(),
-        ], [
-            [
-                [0, 1, 0, 0],
-                [0, 1, 1, 0],
-                [0, 0, 1, 0],
-                [0, 0, 0, 0],
-            ].reverse(), [
-                [0, 0, 1, 1],
-                [0, 1, 1, 0],
-                [0, 0, 0, 0],
-                [0, 0, 0, 0],
-            ].reverse(),
-        ], [
-            [
-                [0, 1, 0, 0],
-                [0, 1, 1, 0],
-                [0, 1, 0, 0],
-                [0, 0, 0, 0],
-            ].reverse(), [
-                [0, 1, 1, 1],
-                [0, 0, 1, 0],
-                [0, 0, 0, 0],
-                [0, 0, 0, 0],
-            ].reverse(), [
-                [0, 0, 1, 0],
-                [0, 1, 1, 0],
-                [0, 0, 1, 0],
-                [0, 0, 0, 0],
-            ].reverse(), [
-                [0, 0, 1, 0],
-                [0, 1, 1, 1],
-                [0, 0, 0, 0],
-                [0, 0, 0, 0],
-            ].reverse(),
-        ], [
-            [
-                [0, 0, 1, 0],
-                [0, 0, 1, 0],
-                [0, 0, 1, 0],
-                [0, 0, 1, 0],
-            ].reverse(), [
-                [1, 1, 1, 1],
-                [0, 0, 0, 0],
-                [0, 0, 0, 0],
-                [0, 0, 0, 0],
-            ].reverse(),
-        ], [
-            [
-                [0, 1, 0, 0],
-                [0, 1, 0, 0],
-                [0, 1, 1, 0],
-                [0, 0, 0, 0],
-            ].reverse(), [
-                [0, 1, 1, 1],
-                [0, 1, 0, 0],
-                [0, 0, 0, 0],
-                [0, 0, 0, 0],
-            ].reverse(), [
-                [0, 1, 1, 0],
-                [0, 0, 1, 0],
-                [0, 0, 1, 0],
-                [0, 0, 0, 0],
-            ].reverse(), [
-                [0, 0, 0, 1],
-                [0, 1, 1, 1],
-                [0, 0, 0, 0],
-                [0, 0, 0, 0],
-            ].reverse(),
-        ], [
-            [
-                [0, 0, 1, 0],
-                [0, 0, 1, 0],
-                [0, 1, 1, 0],
-                [0, 0, 0, 0],
-            ].reverse(), [
-                [0, 1, 0, 0],
-                [0, 1, 1, 1],
-                [0, 0, 0, 0],
-                [0, 0, 0, 0],
-            ].reverse(), [
-                [0, 1, 1, 0],
-                [0, 1, 0, 0],
-                [0, 1, 0, 0],
-                [0, 0, 0, 0],
-            ].reverse(), [
-                [0, 1, 1, 1],
-                [0, 0, 0, 1],
-                [0, 0, 0, 0],
-                [0, 0, 0, 0],
-            ].reverse(),
-        ],
-    ];
-
-    private spriteRenderer: SpriteRenderer;
+    private renderer: Renderer;
+    private unit: number;  // size of a cell, the whole layout fits into [0; 1] x [0; 1]
+    private origin: Vec2;  // lower left corner of the layout
+    private previewScale: number;
     private textRenderer: TextRenderer;
+    private labelRenderer: TextRenderer;
 
     private spriteBg: Sprite;
     private spriteField: Sprite;
     private spritesCell: Sprite[];
-    private spriteNextPiece: Sprite;
-
-    private textScore: GameText;
-    private textScoreNumbers: GameText;
-    private textLevel: GameText;
-    private textLevelNumbers: GameText;
-    private textScoreNext: GameText;
-    private textScoreNextNumbers: GameText;
+    private spritesHud: Sprite[];  // boxes of the side panel
+    private spriteOverlay: Sprite;
+    private spriteGarbage: Sprite;  // a garbage cell on the field
+    private spriteGarbageMeter: Sprite;
+
+    private textsHud: GameText[];  // labels and values of the side panel
+    private hudValues: HudValue[];
+    private slotNext: PieceSlot;  // null if the layout has none, like the other slots
+    private slotsQueue: PieceSlot[];  // for the pieces after the next one
+    private slotHold: PieceSlot;
+    private nextQueue_: number;
     private textGame: GameText;
     private textOver: GameText;
-
-    private currentPieceIdx: number;
-    private currentPos: Vec2;
-    private currentRotIdx: number;
-    private nextPieceIdx: number;
-
-    private field: Array2D<number>;
-    private gameOver: boolean;
-    private moveTimeout: number;
-    private score: number;
-    private level: number;
-
-    private get currentPiece(): number[][]{
-        if (this.currentPieceIdx == null) {
-            return null;
-        } else {
-            return Game.PIECES[this.currentPieceIdx][this.currentRotIdx];
-        }
-    }
-
-    constructor(gl: WebGLRenderingContext) {
-        this.spriteRenderer = new SpriteRenderer(gl);
-        this.textRenderer = new TextRenderer(gl, "font1", new Vec2(Game.UNIT, Game.UNIT), new Vec2(1 / 16, 1/ 16));
-
+    private textSeed: GameText;
+    private textsOverlay: GameText[];
+    private textDebug: GameText;
+    private textsBoard: GameText[];  // high score table or controls
+    private labels: AwardLabel[];
+    private particles: ParticleSystem;
+
+    private engine: GameEngine;
+    private recorder: ReplayRecorder;
+    private player: ReplayPlayer;
+    private rules: GameRules;
+    private keepSeed: boolean;
+    private countdown: number;  // ms left in the Ready phase
+    private highScores: HighScoreTable;
+    private lastScore: HighScore;  // of the game that just ended
+    private nameEntry: NameEntry;
+    private lastName: string;
+    private selectedScore: number;  // rank shown in detail in the high score table
+    private blinkTime: number;
+    private areaOrigin: Vec2;  // lower left corner of the square the layout fits into
+    private areaSize: number;
+    private resultLines: string[];
+    private puzzlePack: PuzzlePack;  // null without puzzles
+    private puzzleProgress: PuzzleProgress;
+    private selectedPuzzle: number;
+    private remoteState: GameState;  // shown instead of the own engine, for the board of a remote opponent
+    gamepad: GamepadInput;
+    private selectedControl: Control;  // on the controls screen
+    private waitingForBinding: boolean;
+    private justBound: boolean;  // a gamepad button was bound this frame, so it does nothing else
+    private audio: AudioSystem;
+    private suggestion: Placement;  // of the bot for the current piece, null if not needed or not known yet
+    private suggestionPiece: number;  // the piece the suggestion is for, it changes on hold
+    private botTime: number;  // ms since the last input of the autoplay
+    private botPlayed: boolean;  // the autoplay was used in this game, so its score does not count
+    phase: GamePhase;
+    bot: Bot;
+    autoplay: boolean;
+    hint: boolean;  // outline where the bot would put the piece
+    ranked: boolean;  // whether a game over asks for the name of a high score
+    pausable: boolean;  // false if the opponent plays on anyway, over the network
+    background: boolean;  // whether the background behind the game is drawn, only one game on the canvas should
+    onAttack: (rows: number) => void;  // garbage the player sends to an opponent
+    onInput: (frame: number, action: GameAction) => void;
+    controls: Controls;
+    autoShift: AutoShift;
+
+    // With keepSeed a restart deals the same pieces again, otherwise it picks a new seed.
+    constructor(renderer: Renderer, rules: GameRules, highScores: HighScoreTable, controls: Controls, audio: AudioSystem,
+        keepSeed: boolean = false) {
+        this.renderer = renderer;
+        this.highScores = highScores;
+        this.audio = audio;
+        this.areaOrigin = new Vec2(0, 0);
+        this.areaSize = 1;
+        this.resultLines = [];
+        this.puzzlePack = null;
+        this.puzzleProgress = null;
+        this.selectedPuzzle = 0;
+        this.remoteState = null;
+        this.ranked = true;
+        this.pausable = true;
+        this.background = true;
+        this.onAttack = null;
+        this.onInput = null;
+        this.controls = controls;
+        this.gamepad = new GamepadInput(controls, this.press.bind(this), this.release.bind(this));
+        this.gamepad.onButton = this.handleButton.bind(this);
+        this.selectedControl = 0;
+        this.waitingForBinding = false;
+        this.justBound = false;
+        this.bot = new Bot();
+        this.autoplay = false;
+        this.hint = false;
+        this.botTime = 0;
+        this.lastScore = null;
+        this.nameEntry = null;
+        this.lastName = "";
+        this.selectedScore = 0;
+        this.blinkTime = 0;
         this.spriteBg = new Sprite();
-        this.spriteBg.size = new Vec2(1, 1);
         this.spriteBg.image = Game.MASTER_BG;
         this.spriteBg.textureSize = new Vec2(1024 / 704, 512/706);
 
         this.spriteField = new Sprite();
-        this.spriteField.position = new Vec3(Game.UNIT, Game.UNIT, -1);
-        this.spriteField.size = new Vec2(12 * Game.UNIT, 1 - Game.UNIT);
         this.spriteField.image = Game.BG;
-        this.spriteField.textureSize = new Vec2(Game.UNIT * 2, Game.UNIT * 2);
 
         this.spritesCell = [];
         Game.CELLS.forEach((c) => {
             var sprite = new Sprite();
             sprite.image = c;
-            sprite.size = new Vec2(Game.UNIT, Game.UNIT);
             this.spritesCell.push(sprite);
         });
 
-        this.spriteNextPiece = new Sprite();
-        this.spriteNextPiece.position = new Vec3(Game.UNIT * 14, 1 - Game.UNIT * 7);
-        this.spriteNextPiece.size = new Vec2(Game.UNIT * 4, Game.UNIT * 6);
-        this.spriteNextPiece.image = this.spriteField.image;
-        this.spriteNextPiece.textureSize = this.spriteField.textureSize;
-
-        this.textScore = new GameText("SCORE", new Vec3(Game.UNIT * 14, 1 - Game.UNIT * 9));
-        this.textScoreNumbers = new GameText("------", new Vec3(Game.UNIT * 14, 1 - Game.UNIT * 10));
-        this.textLevel = new GameText("LEVEL", new Vec3(Game.UNIT * 14, 1 - Game.UNIT * 12));
-        this.textLevelNumbers = new GameText("---", new Vec3(Game.UNIT * 14, 1 - Game.UNIT * 13));
-        this.textScoreNext = new GameText("NEXT", new Vec3(Game.UNIT * 14, 1 - Game.UNIT * 15));
-        this.textScoreNextNumbers = new GameText("------", new Vec3(Game.UNIT * 14, 1 - Game.UNIT * 16));
-        this.textGame = new GameText("\23 GAME", new Vec3(Game.UNIT * 14, 1 - Game.UNIT * 18));
-        this.textOver = new GameText("\23 OVER", new Vec3(Game.UNIT * 14, 1 - Game.UNIT * 19));
-
-        this.field = new Array2D(Game.WIDTH, Game.HEIGHT, 0);
-        this.currentPieceIdx = null;
-        this.currentPos = new Vec2();
-        this.gameOver = false;
-        this.level = 1;
-        this.score = 0;
-
-        this.nextPieceIdx = Math.floor(Math.random() * Game.PIECES.length);
-        this.move();
+        this.spritesHud = [];
+        this.slotNext = null;
+        this.slotsQueue = [];
+        this.slotHold = null;
+        this.nextQueue_ = Game.NEXT_QUEUE;
+
+        this.spriteOverlay = new Sprite();
+        this.spriteOverlay.image = this.spriteField.image;
+        this.spriteOverlay.alpha = Game.OVERLAY_ALPHA;
+
+        this.spriteGarbage = new Sprite();
+        this.spriteGarbage.image = Game.CELLS[0];
+        this.spriteGarbage.alpha = Game.GARBAGE_ALPHA;
+
+        this.spriteGarbageMeter = new Sprite();
+        this.spriteGarbageMeter.image = Game.CELLS[0];
+
+        this.textsHud = [];
+        this.hudValues = [];
+        this.textGame = new GameText("\23 GAME", null);
+        this.textOver = new GameText("\23 OVER", null);
+        this.textSeed = new GameText("--------", null);
+        this.textsOverlay = [];
+        this.textDebug = new GameText("", null, false);
+        this.textsBoard = [];
+        this.labels = [];
+        this.particles = new ParticleSystem(Game.CELLS);
+
+        this.rules = rules;
+        this.keepSeed = keepSeed;
+        this.autoShift = new AutoShift(Game.DAS, Game.ARR, (action) => this.input(action),
+            (action) => this.engine.canShift(action == GameAction.MoveLeft ? -1 : 1));
+        this.restart();
+    }
+
+    // Starts a new game with a fresh field, score and level. The seed, if given, is
+    // used instead of picking one.
+    restart(seed: number = null): void {
+        if (seed != null) {
+            this.rules = cloneData(this.rules);
+            this.rules.seed = seed;
+        } else if (this.engine && !this.keepSeed) {
+            this.rules = cloneData(this.rules);
+            this.rules.seed = Prng.randomSeed();
+        }
+        this.engine = new GameEngine(this.rules);
+        this.engine.onEvent = this.handleEvent.bind(this);
+        this.recorder = new ReplayRecorder(this.engine);
+        this.layout();
+        this.player = null;
+        this.lastScore = null;
+        this.labels = [];
+        this.particles.clear();
+        this.autoShift.releaseAll();
+        this.audio.rewindMusic();
+        this.suggestion = null;
+        this.botPlayed = this.autoplay;
+
+        this.textSeed.text = Game.seedText(this.rules.seed);
+        this.setPhase(GamePhase.Ready);
         this.updateTexts();
     }
 
-    private collisionTest(piece: number[][], pos: Vec2): boolean {
-        for (var x = 0; x < Game.PIECE_SIZE; ++x) {
-            for (var y = 0; y < Game.PIECE_SIZE; ++y) {
-                if (piece[y][x] == 1) {
-                    var theX = pos.x + x;
-                    var theY = pos.y + y;
-                    if (theX < 0 || theX >= Game.WIDTH ||
-                        theY < 0 || theY >= Game.HEIGHT ||
-                        this.field.get(theX, theY) != 0) {
-                        return true;
-                    }
-                }
-            }
+    static seedText(seed: number): string {
+        var text = seed.toString(16);
+        while (text.length < 8) {
+            text = "0" + text;
         }
-        return false;
+        return text;
+    }
+
+    // The replay being watched, or the recording of the current game.
+    get replay(): Replay {
+        return this.player ? this.player.replay : this.recorder.replay;
+    }
+
+    // What is shown, the own game or the remote board.
+    get state(): GameState {
+        return this.remoteState || this.engine.state;
     }
 
-    private rotatePiece(): void {
-        // Clockwise rotation.
-        var nextRotIdx = (this.currentRotIdx + 1) % Game.PIECES[this.currentPieceIdx].length;
-        if (!this.collisionTest(Game.PIECES[this.currentPieceIdx][nextRotIdx], this.currentPos)) {
-            this.currentRotIdx = nextRotIdx;
+    get mode(): GameMode {
+        return this.engine.mode;
+    }
+
+    // How the own game ended for a versus match, null while it runs.
+    get matchResult(): MatchResult {
+        var state = this.engine.state;
+        return state.gameOver ? { finished: state.finished, score: state.score, time: this.engine.time } : null;
+    }
+
+    // Shows a board that is played somewhere else instead of the own game, which
+    // stops taking inputs for good.
+    showState(state: GameState): void {
+        this.remoteState = state;
+        this.updateTexts();
+    }
+
+    // Matrices of the pieces by index and rotation, see RotationSystem.
+    get pieces(): number[][][][] {
+        return this.engine.pieces;
+    }
+
+    // Size of a cell on the canvas in pixels.
+    get cellPixels(): number {
+        return this.unit * this.renderer.viewport.scale;
+    }
+
+    // Throws a message if the game cannot be played or shown with these rules.
+    static checkRules(rules: GameRules): void {
+        new GameEngine(rules);
+        if (rules.pieceSet && rules.pieceSet.pieces.some((piece) => piece.sprite >= Game.CELLS.length)) {
+            throw "Pieces may only use the sprites 0 to " + (Game.CELLS.length - 1);
         }
     }
 
-    private updateScore(): void {
-        var fullRows: number[] = [];
-        for (var y = 0; y < Game.HEIGHT; ++y) {
-            var currentRowFull = true;
-            for (var x = 0; x < Game.WIDTH; ++x) {
-                if (this.field.get(x, y) == 0) {
-                    currentRowFull = false;
+    watchReplay(replay: Replay): void {
+        Game.checkRules(replay.rules);
+        this.player = new ReplayPlayer(replay);
+        this.engine = this.player.engine;
+        this.engine.onEvent = this.handleEvent.bind(this);
+        this.layout();
+        this.labels = [];
+        this.particles.clear();
+        this.textSeed.text = Game.seedText(replay.rules.seed);
+        this.setPhase(GamePhase.Replay);
+        this.updateTexts();
+    }
+
+    // Pieces shown as next, 1 to GameEngine.NEXT_PIECES.
+    get nextQueue(): number {
+        return this.nextQueue_;
+    }
+
+    set nextQueue(count: number) {
+        this.nextQueue_ = count;
+        this.layout();
+        this.updateTexts();
+        this.updateOverlay();
+    }
+
+    // Places everything around a field of the size of the current board: the
+    // field with a margin of one cell, then the side panel of HUD_LAYOUT on its right.
+    private layout(): void {
+        var width = this.engine.rules.width;
+        var height = this.engine.rules.height;
+        var items = HUD_LAYOUT.filter((item) => item.type != "queue" || this.nextQueue_ > 1);
+        var panelWidth = Game.PANEL_WIDTH;
+        items.forEach((item) => {
+            panelWidth = Math.max(panelWidth, item.x + (item.width || 0));
+        });
+        var layoutWidth = width + 1 + panelWidth;
+        var layoutHeight = height + 1;
+        var size = this.areaSize;
+        this.unit = size / Math.max(layoutWidth, layoutHeight);
+        this.origin = new Vec2(this.areaOrigin.x + (size - layoutWidth * this.unit) / 2,
+            this.areaOrigin.y + (size - layoutHeight * this.unit) / 2);
+        var unit = this.unit;
+        var panel = width + 2;
+        var top = height + 1;
+
+        var largest = 0;
+        this.engine.pieces.forEach((states) => states.forEach((matrix) => {
+            largest = Math.max(largest, matrix.length);
+        }));
+        this.previewScale = Math.min(1, Game.PREVIEW_SIZE / largest);
+
+        this.textRenderer = new TextRenderer(this.renderer, Game.FONT, new Vec2(unit, unit), new Vec2(1 / 16, 1/ 16));
+        this.labelRenderer = new TextRenderer(this.renderer, Game.FONT,
+            new Vec2(unit * Game.LABEL_SCALE, unit * Game.LABEL_SCALE), new Vec2(1 / 16, 1 / 16));
+
+        this.spriteField.position = this.at(1, 1, -1);
+        this.spriteField.size = new Vec2(width * unit, height * unit);
+        this.spriteField.textureSize = new Vec2(unit * 2, unit * 2);
+
+        this.spritesCell.forEach((sprite) => {
+            sprite.size = new Vec2(unit, unit);
+        });
+        this.spriteGarbage.size = new Vec2(unit, unit);
+
+        this.spriteOverlay.position = this.at(1, 1, 1);  // above the pieces
+        this.spriteOverlay.size = this.spriteField.size;
+        this.spriteOverlay.textureSize = this.spriteField.textureSize;
+
+        this.spritesHud = [];
+        this.textsHud = [];
+        this.hudValues = [];
+        this.slotNext = null;
+        this.slotsQueue = [];
+        this.slotHold = null;
+        items.forEach((item) => {
+            var x = panel + item.x;
+            var y = item.anchor == "bottom" ? item.y : top - item.y;
+            switch (item.type) {
+                case "box":
+                    this.addHudBox(x, y, item.width, item.height);
                     break;
-                }
-            }
-            if (currentRowFull) {
-                fullRows.push(y);
+                case "label":
+                    this.textsHud.push(new GameText(item.text, this.at(x, y)));
+                    break;
+                case "value":
+                    this.addHudValue(item.value, x, y);
+                    break;
+                case "mode":
+                    this.engine.mode.hud.forEach((value, i) => {
+                        this.textsHud.push(new GameText(Game.HUD_LABELS[value], this.at(x, y - item.step * i)));
+                        this.addHudValue(value, x, y - 1 - item.step * i);
+                    });
+                    break;
+                case "next":
+                    this.slotNext = { position: this.at(x, y), scale: item.scale * this.previewScale, width: item.width || 0 };
+                    break;
+                case "queue":
+                    // Grows down from its top edge, every piece centered in its step.
+                    var count = this.nextQueue_ - 1;
+                    var scale = item.scale * this.previewScale;
+                    this.addHudBox(x, y - item.step * count, item.width, item.step * count);
+                    for (var i = 0; i < count; ++i) {
+                        var slotY = y - item.step * (i + 1) + (item.step - largest * scale) / 2;
+                        this.slotsQueue.push({ position: this.at(x, slotY), scale: scale, width: item.width });
+                    }
+                    break;
+                case "hold":
+                    this.slotHold = { position: this.at(x, y), scale: item.scale * this.previewScale, width: item.width || 0 };
+                    break;
+                case "gameover":
+                    this.textGame.position = this.at(x, y);
+                    this.textOver.position = this.at(x, y - 1);
+                    break;
+                case "seed":
+                    this.textSeed.position = this.at(x, y);
+                    break;
+                case "debug":
+                    this.textDebug.position = this.at(x, y, 2);
+                    break;
+                default:
+                    throw "Unknown HUD item " + item.type;
             }
+        });
+    }
+
+    // A box of the side panel, in cells like at().
+    private addHudBox(x: number, y: number, width: number, height: number): void {
+        var sprite = new Sprite();
+        sprite.image = this.spriteField.image;
+        sprite.position = this.at(x, y);
+        sprite.size = new Vec2(width * this.unit, height * this.unit);
+        sprite.textureSize = this.spriteField.textureSize;
+        this.spritesHud.push(sprite);
+    }
+
+    private addHudValue(value: string, x: number, y: number): void {
+        var text = new GameText("", this.at(x, y));
+        this.textsHud.push(text);
+        this.hudValues.push({ text: text, value: value });
+    }
+
+    // Moves the game into a square of the canvas, by default it fills [0; 1] x [0; 1].
+    setArea(origin: Vec2, size: number): void {
+        this.areaOrigin = origin;
+        this.areaSize = size;
+        this.layout();
+        this.updateTexts();
+        this.updateOverlay();
+    }
+
+    // Position of a point given in cells from the lower left corner of the layout.
+    private at(x: number, y: number, z: number = 0): Vec3 {
+        return new Vec3(this.origin.x + x * this.unit, this.origin.y + y * this.unit, z);
+    }
+
+    pause(): void {
+        if (this.pausable && (this.phase == GamePhase.Playing || this.phase == GamePhase.Ready)) {
+            this.setPhase(GamePhase.Paused);
         }
+    }
 
-        if (fullRows.length == 0) {
-            return;
+    // Resuming counts down again so the player has time to get ready.
+    resume(): void {
+        if (this.phase == GamePhase.Paused) {
+            this.setPhase(GamePhase.Ready);
         }
+    }
 
-        // Note that deleting rows is sorted ascending!
-        var i = 0;
-        fullRows.forEach((deletingRow) => {
-            for (var y = deletingRow - i; y < Game.HEIGHT; ++y) {
-                for (var x = 0; x < Game.WIDTH; ++x) {
-                    if (y + 1 >= Game.HEIGHT) {
-                        this.field.set(x, y, 0);
-                    } else {
-                        this.field.set(x, y, this.field.get(x, y + 1));
-                    }
-                }
+    // Asks for a name if the score made it into the high score table.
+    private gameOver(): void {
+        var state = this.engine.state;
+        if (this.engine.rules.puzzle) {
+            if (state.finished && this.puzzlePack && !this.botPlayed) {
+                this.puzzleProgress.solve(this.puzzlePack, this.selectedPuzzle);
             }
+            this.lastScore = null;
+            this.setPhase(GamePhase.GameOver);
+            return;
+        }
+        // A sprint only counts if it was finished.
+        var ranked = this.ranked && !this.botPlayed && (state.finished || !this.engine.mode.rankByTime);
+        this.lastScore = {
+            name: "",
+            mode: scoreMode(this.engine.rules),
+            score: state.score,
+            level: state.level,
+            lines: state.lines,
+            time: this.engine.frame * GameEngine.FRAME_TIME,
+            date: new Date().toISOString(),
+        };
+        if (ranked && this.highScores.rank(this.lastScore) != -1) {
+            this.nameEntry = new NameEntry(this.lastName);
+            this.setPhase(GamePhase.NameEntry);
+        } else {
+            this.setPhase(GamePhase.GameOver);
+        }
+    }
 
-            ++i;
-        });
+    private saveHighScore(): void {
+        this.lastName = this.nameEntry.name;
+        this.lastScore.name = this.lastName || "-";
+        var rank = this.highScores.add(this.lastScore);
+        this.showHighScores(Math.max(0, rank));
+    }
+
+    private showHighScores(selected: number): void {
+        this.selectedScore = selected;
+        this.setPhase(GamePhase.HighScores);
+    }
+
+    // Shows the select screen of the pack, the progress says which puzzles were solved.
+    loadPuzzles(pack: PuzzlePack, progress: PuzzleProgress): void {
+        this.puzzlePack = pack;
+        this.puzzleProgress = progress;
+        this.selectedPuzzle = 0;
+        this.setPhase(GamePhase.Puzzles);
+    }
+
+    private startPuzzle(index: number): void {
+        var puzzle = this.puzzlePack.puzzles[index];
+        this.selectedPuzzle = index;
+        this.rules = cloneData(this.rules);
+        this.rules.mode = "puzzle";
+        this.rules.puzzle = puzzle;
+        this.rules.pieceSet = null;
+        this.rules.width = puzzle.field[0].length;
+        this.rules.height = puzzle.height || PUZZLE_HEIGHT;
+        this.restart();
+    }
+
+    private selectPuzzle(direction: number): void {
+        this.selectedPuzzle = Math.max(0, Math.min(this.puzzlePack.puzzles.length - 1, this.selectedPuzzle + direction));
+        this.updateBoard();
+    }
+
+    // After a game: the next puzzle once one is solved, otherwise the same again.
+    private playAgain(): void {
+        if (!this.puzzlePack || !this.engine.rules.puzzle || !this.engine.state.finished) {
+            this.restart();
+        } else if (this.selectedPuzzle + 1 < this.puzzlePack.puzzles.length) {
+            this.startPuzzle(this.selectedPuzzle + 1);
+        } else {
+            this.setPhase(GamePhase.Puzzles);
+        }
+    }
 
-        // TODO SCORE! LEVEL!
-        var base: number;
-        switch (fullRows.length) {
-            case 1:
-                base = 40;
+    private setPhase(phase: GamePhase): void {
+        this.phase = phase;
+        this.countdown = Game.COUNTDOWN;
+        this.blinkTime = 0;
+        this.audio.playMusic(phase == GamePhase.Playing);
+        this.autoShift.releaseAll();
+        this.endSoftDrop();
+        this.updateOverlay();
+    }
+
+    // Lets go of a held soft drop, without an input for the replay and the
+    // opponent if there is none.
+    private endSoftDrop(): void {
+        if (this.engine.softDropping) {
+            this.input(GameAction.SoftDropEnd);
+        }
+    }
+
+    // All inputs of the player go through here so they end up in the replay.
+    private input(action: GameAction): void {
+        if (!this.player && !this.remoteState) {
+            this.recorder.apply(action);
+            if (this.onInput) {
+                this.onInput(this.engine.frame, action);
+            }
+        }
+    }
+
+    // Text lines centered on the field.
+    private updateOverlay(): void {
+        var lines: string[];
+        switch (this.phase) {
+            case GamePhase.Ready:
+                lines = [this.engine.mode.title, "", "READY", "", "" + Math.ceil(this.countdown / 1000)];
+                break;
+            case GamePhase.Paused:
+                lines = ["PAUSED", "", "P TO RESUME", "R TO RESTART", "", "K: CONTROLS"];
+                break;
+            case GamePhase.GameOver:
+                lines = this.resultSummary();
                 break;
-            case 2:
-                base = 100;
+            case GamePhase.NameEntry:
+                var blink = Math.floor(this.blinkTime / Game.BLINK_TIME) % 2 == 0;
+                lines = ["HIGH SCORE", "RANK " + (this.highScores.rank(this.lastScore) + 1),
+                    "", this.nameEntry.text(blink), "", "ENTER: SAVE"];
                 break;
-            case 3:
-                base = 300;
+            case GamePhase.Playing:
+                lines = this.autoplay ? ["AUTOPLAY"] : [];
+                break;
+            case GamePhase.Result:
+                lines = this.resultLines;
+                break;
+            case GamePhase.Replay:
+                lines = [
+                    "REPLAY " + (this.player.paused ? "||" : this.player.speed + "X"),
+                    Game.timeText(this.player.frame * GameEngine.FRAME_TIME) + "/" +
+                        Game.timeText(this.player.frames * GameEngine.FRAME_TIME),
+                ];
                 break;
-            case 4:
             default:
-                base = 1200;
+                lines = [];
                 break;
         }
-        this.score += base * this.level;
-        
-        while (this.score >= Game.levelMinScore(this.level + 1))
-            ++this.level;
-        
-        this.updateTexts();
-    }
 
-    private static levelMinScore(level: number): number {
-        // Have a jump every this.level * 1200 points,
-        // that means, the points for each level l are
-        //     SUM (1200 * n) for n in 1..(l-1)
-        // and this happens to be
-        //     600 * l * (l - 1)
-        // Thanks Wolfram!
-        return 600 * level * (level - 1);
+        var width = this.engine.rules.width;
+        var height = this.engine.rules.height;
+        var top = Math.floor((height + lines.length) / 2);
+        if (this.phase == GamePhase.Replay || this.phase == GamePhase.Playing) {
+            // Keep the field visible.
+            top = height - 1;
+        }
+        this.textsOverlay = lines.map((line, i) => new GameText(line,
+            this.at(1 + Math.floor((width - line.length) / 2), 1 + top - i, 2)));
+        this.updateBoard();
     }
 
-    private updateTexts(): void {
-        this.textScoreNumbers.text = "" + this.score;
-        while (this.textScoreNumbers.text.length < 6) {
-            this.textScoreNumbers.text = "0" + this.textScoreNumbers.text;
+    // Lines of text in the small font on top of the field.
+    private updateBoard(): void {
+        var lines: string[];
+        switch (this.phase) {
+            case GamePhase.HighScores:
+                lines = this.highScoreLines();
+                break;
+            case GamePhase.Controls:
+                lines = this.controlsLines();
+                break;
+            case GamePhase.Puzzles:
+                lines = this.puzzleLines();
+                break;
+            default:
+                this.textsBoard = [];
+                return;
         }
 
-        this.textLevelNumbers.text = "" + this.level;
-        while (this.textLevelNumbers.text.length < 3) {
-            this.textLevelNumbers.text = "0" + this.textLevelNumbers.text;
+        var width = this.engine.rules.width;
+        var top = this.engine.rules.height;
+        this.textsBoard = lines.map((line, i) => new GameText(line, this.at(
+            1 + (width - line.length * Game.LABEL_SCALE) / 2, top - i * Game.BOARD_LINE, 2)));
+    }
+
+    // The high score table of the mode with the details of the selected score.
+    private highScoreLines(): string[] {
+        var mode = this.lastScore ? this.lastScore.mode : scoreMode(this.engine.rules);
+        var ranking = this.highScores.ranking(mode);
+        var lines = ["HIGH SCORES", mode.toUpperCase(), ""];
+        var byTime = HighScoreTable.byTime(mode);
+        ranking.forEach((s, i) => {
+            var rank = (i < 9 ? " " : "") + (i + 1);
+            var name = (s.name + "        ").substr(0, NameEntry.LENGTH);
+            var score = "       " + (byTime ? Game.clockText(s.time) : s.score);
+            lines.push((i == this.selectedScore ? ">" : " ") + rank + " " + name + " " + score.substr(score.length - 7));
+        });
+        if (ranking.length == 0) {
+            lines.push("NO SCORES YET");
+        }
+        var selected = ranking[this.selectedScore];
+        lines.push("");
+        if (selected) {
+            lines.push("LEVEL " + selected.level + "  LINES " + selected.lines);
+            lines.push(Game.timeText(selected.time) + "  " + selected.date.substr(0, 10));
         }
+        lines.push("");
+        lines.push("ENTER:RETRY ESC:BACK");
+        return lines;
+    }
 
-        this.textScoreNextNumbers.text = "" + Game.levelMinScore(this.level + 1);
-        while (this.textScoreNextNumbers.text.length < 6) {
-            this.textScoreNextNumbers.text = "0" + this.textScoreNextNumbers.text;
+    // The puzzles of the pack, the solved ones marked with a star.
+    private puzzleLines(): string[] {
+        var lines = ["PUZZLES", this.puzzlePack.name.toUpperCase(), ""];
+        var solved = 0;
+        this.puzzlePack.puzzles.forEach((puzzle, i) => {
+            var number = (i < 9 ? " " : "") + (i + 1);
+            var mark = " ";
+            if (this.puzzleProgress.solved(this.puzzlePack, i)) {
+                mark = "*";
+                ++solved;
+            }
+            lines.push(((i == this.selectedPuzzle ? ">" : " ") + number + mark + puzzle.name.toUpperCase()).substr(0, 20));
+        });
+        lines.push("");
+        lines.push(solved + "/" + this.puzzlePack.puzzles.length + " SOLVED");
+        lines.push("");
+        lines.push("ENTER:PLAY");
+        return lines;
+    }
+
+    // The keys of every control and the gamepad buttons of the selected one.
+    private controlsLines(): string[] {
+        var lines = ["CONTROLS", ""];
+        this.controls.keys.forEach((codes, control) => {
+            var name = (Controls.NAMES[control] + "        ").substr(0, 8);
+            var keys = codes.map(keyName).join(" ") || "-";
+            lines.push(((control == this.selectedControl ? ">" : " ") + name + keys).substr(0, 20));
+        });
+        lines.push("");
+        if (this.gamepad.lastId != null) {
+            var buttons = this.controls.buttons(this.gamepad.lastId)[this.selectedControl];
+            lines.push("PAD: " + (buttons.map((b) => "B" + b).join(" ") || "-"));
+        } else {
+            lines.push("PAD: PRESS A BUTTON");
+        }
+        lines.push("");
+        if (this.waitingForBinding) {
+            lines.push("PRESS KEY OR BUTTON");
+            lines.push("ESC:CANCEL");
+        } else {
+            lines.push("ENTER:BIND DEL:CLEAR");
+            lines.push("D:DEFAULTS ESC:BACK");
         }
+        return lines;
+    }
+
+    // Formats ms as MM:SS.
+    static timeText(ms: number): string {
+        var seconds = Math.floor(ms / 1000);
+        var text = "";
+        [Math.floor(seconds / 60), seconds % 60].forEach((part, i) => {
+            text += (i > 0 ? ":" : "") + (part < 10 ? "0" : "") + part;
+        });
+        return text;
     }
 
-    private move(dropping: boolean = false): void {
-        if (this.moveTimeout) {
-            clearTimeout(this.moveTimeout);
+    // Formats ms as M:SS.CC, for the timers of the modes.
+    static clockText(ms: number): string {
+        var hundredths = Math.floor(ms / 10);
+        var seconds = Math.floor(hundredths / 100) % 60;
+        return Math.floor(hundredths / 6000) + ":" + (seconds < 10 ? "0" : "") + seconds + "." +
+            Game.zeroPad(hundredths % 100, 2);
+    }
+
+    static zeroPad(value: number, digits: number): string {
+        var text = "" + value;
+        while (text.length < digits) {
+            text = "0" + text;
         }
+        return text;
+    }
 
-        do {
-            if (this.currentPieceIdx == null) {
+    // Text of a value of the HUD, see GameMode.hud.
+    private hudValue(value: string, state: GameState): string {
+        var mode = this.engine.mode;
+        switch (value) {
+            case "score":
+                return Game.zeroPad(state.score, 6);
+            case "level":
+                return Game.zeroPad(state.level, 3);
+            case "next":
+                return Game.zeroPad(GameEngine.levelMinScore(state.level + 1), 6);
+            case "lines":
+                return mode.goalLines > 0 ? Math.min(state.lines, mode.goalLines) + "/" + mode.goalLines : Game.zeroPad(state.lines, 3);
+            case "time":
+                return Game.clockText(this.engine.time);
+            case "left":
+                return Game.clockText(Math.max(0, mode.timeLimit - this.engine.time));
+            case "goal":
+                return puzzleGoalText(this.engine.rules.puzzle.goal);
+            case "pps":
+                return (this.engine.time > 0 ? this.engine.placed * 1000 / this.engine.time : 0).toFixed(2);
+            default:
+                throw "Unknown HUD value " + value;
+        }
+    }
 
-                dropping = false;  // Stop dropping if we are dropping
+    // Headline and main value of the game that just ended, by its mode, and what can be done next.
+    private resultSummary(): string[] {
+        var state = this.engine.state;
+        var mode = this.engine.mode;
+        if (this.engine.rules.puzzle) {
+            return [state.finished ? mode.finishText : "FAILED", "", "GOAL", this.hudValue("goal", state), "",
+                state.finished ? "ENTER:NEXT" : "ENTER:RETRY", this.puzzlePack ? "ESC:PUZZLES" : ""];
+        }
+        var value = mode.rankByTime ? (state.finished ? "time" : "lines") : "score";
+        return [state.finished ? mode.finishText : "GAME OVER", "", Game.HUD_LABELS[value], this.hudValue(value, state),
+            "", "PRESS ENTER", "TO RETRY", "", "L: SCORES"];
+    }
 
-                // Spawn a piece.
-                this.currentPieceIdx = this.nextPieceIdx;
-                this.currentPos.x = Math.floor((Game.WIDTH - Game.PIECE_SIZE) / 2);
-                this.currentPos.y = Game.HEIGHT - Game.PIECE_SIZE;
-                this.currentRotIdx = 0;
+    private updateTexts(): void {
+        var state = this.state;
+        this.hudValues.forEach((binding) => {
+            binding.text.text = this.hudValue(binding.value, state);
+        });
+    }
 
-                this.nextPieceIdx = Math.floor(Math.random() * Game.PIECES.length);
-                
-                // Game Over?
-                if (this.collisionTest(this.currentPiece, this.currentPos)) {
-                    this.gameOver = true;
+    private handleEvent(event: GameEvent): void {
+        switch (event.type) {
+            case GameEventType.Award:
+                // Labels of the same lock are stacked.
+                var stacked = this.labels.filter((label) => label.age == 0).length;
+                var width = event.label.length * Game.LABEL_SCALE;
+                this.labels.push({
+                    text: new GameText(event.label, this.at(
+                        1 + (this.engine.rules.width - width) / 2,
+                        this.engine.rules.height / 2 - stacked * Game.LABEL_SCALE)),
+                    age: 0,
+                });
+                break;
+            case GameEventType.LineClear:
+                var field = this.engine.state.field;
+                event.rows.forEach((y) => {
+                    for (var x = 0; x < field.width; ++x) {
+                        var center = this.at(1.5 + x, 1.5 + y);
+                        this.particles.burst(new Vec2(center.x, center.y),
+                            field.get(x, y) == GameEngine.GARBAGE ? 0 : this.engine.sprites[field.get(x, y) - 1],
+                            3, this.unit * 8, this.unit * 0.5, 800);
+                    }
+                });
+                break;
+            case GameEventType.Move:
+                this.audio.play(Sound.Move);
+                break;
+            case GameEventType.Rotate:
+                this.audio.play(Sound.Rotate);
+                break;
+            case GameEventType.Lock:
+                this.suggestion = null;
+                if (event.rows.length == 0) {
+                    this.audio.play(Sound.Lock);
+                } else {
+                    this.audio.play(event.rows.length >= 4 ? Sound.Tetris : Sound.LineClear);
                 }
-
-            } else {
-
-                var nextPos = new Vec2(this.currentPos.x, this.currentPos.y - 1);
-                if (this.collisionTest(this.currentPiece, nextPos)) {
-                    // In case of a collision stop and realize the piece.
-                    for (var x = 0; x < Game.PIECE_SIZE; ++x) {
-                        for (var y = 0; y < Game.PIECE_SIZE; ++y) {
-                            if (this.currentPiece[y][x] == 1) {
-                                this.field.set(this.currentPos.x + x, this.currentPos.y + y, this.currentPieceIdx + 1);
-                            }
-                        }
+                break;
+            case GameEventType.LevelUp:
+                this.audio.play(Sound.LevelUp);
+                break;
+            case GameEventType.Attack:
+                if (this.onAttack) {
+                    this.onAttack(event.lines);
+                }
+                break;
+            case GameEventType.Garbage:
+                // The field moved up below the placement the bot had in mind.
+                this.suggestion = null;
+                break;
+            case GameEventType.GameOver:
+                this.audio.play(Sound.GameOver);
+                break;
+            case GameEventType.Finish:
+                this.audio.play(Sound.LevelUp);
+                break;
+            case GameEventType.HardDrop:
+                // Dust below the lowest cells of the piece.
+                event.cells.forEach((cell) => {
+                    var below = event.cells.some((other) => other.x == cell.x && other.y == cell.y - 1);
+                    if (!below) {
+                        var bottom = this.at(1.5 + cell.x, 1 + cell.y);
+                        this.particles.burst(new Vec2(bottom.x, bottom.y),
+                            this.engine.sprites[event.piece], 2, this.unit * 3, this.unit * 0.3, 400);
                     }
-                    this.currentPieceIdx = null;
+                });
+                break;
+        }
+    }
+
+    private updateLabels(dt: number): void {
+        this.labels.forEach((label) => {
+            label.age += dt;
+            label.text.position.y += this.unit * Game.LABEL_RISE * dt / Game.LABEL_TIME;
+            label.text.alpha = Math.max(0, 1 - label.age / Game.LABEL_TIME);
+        });
+        this.labels = this.labels.filter((label) => label.age < Game.LABEL_TIME);
+    }
 
-                    this.updateScore();
+    update(dt: number): void {
+        this.justBound = false;
+        this.gamepad.poll();
+        this.audio.update();
+        switch (this.phase) {
+            case GamePhase.Ready:
+                this.countdown -= dt;
+                if (this.countdown <= 0) {
+                    this.setPhase(GamePhase.Playing);
                 } else {
-                    // Otherwise move it down.
-                    this.currentPos = nextPos;
+                    this.updateOverlay();
                 }
+                break;
+            case GamePhase.Playing:
+                this.updateLabels(dt);
+                this.particles.update(dt);
+                this.autoShift.update(dt);
+                this.updateBot(dt);
+                this.engine.tick(dt);
+                this.updateTexts();
+                if (this.engine.state.gameOver) {
+                    this.gameOver();
+                }
+                break;
+            case GamePhase.NameEntry:
+                this.blinkTime += dt;
+                this.updateOverlay();
+                break;
+            case GamePhase.Replay:
+                this.player.update(dt);
+                this.engine = this.player.engine;
+                this.engine.onEvent = this.handleEvent.bind(this);
+                this.updateLabels(this.player.paused ? 0 : dt);
+                this.particles.update(this.player.paused ? 0 : dt);
+                this.updateTexts();
+                this.updateOverlay();
+                break;
+        }
+    }
 
-            }
-        } while (dropping);
+    // Finds the placement for the hint or the autoplay and makes the moves of the autoplay.
+    private updateBot(dt: number): void {
+        var state = this.engine.state;
+        if (!(this.autoplay || this.hint) || !state.piece) {
+            this.botTime = 0;
+            return;
+        }
+        if (!this.suggestion || this.suggestionPiece != state.piece.index) {
+            this.suggestion = this.bot.best(state, this.engine.pieces);
+            this.suggestionPiece = state.piece.index;
+        }
+        if (!this.autoplay)
+            return;
+
+        this.botTime += dt;
+        if (this.botTime < Game.BOT_DELAY)
+            return;
+        this.botTime = 0;
+        var action = this.suggestion ? Bot.nextAction(state.piece, this.suggestion) : GameAction.HardDrop;
+        this.input(action);
+        if (action != GameAction.HardDrop && this.engine.state == state) {
+            // Blocked, e.g. by a kick that went elsewhere: give up on this piece.
+            this.input(GameAction.HardDrop);
+        }
+    }
 
-        if (!this.gameOver) {
-            this.moveTimeout = setTimeout(this.move.bind(this), 1000 * Math.pow(3 / 4, this.level - 1));
+    // Garbage rows from the opponent.
+    receiveGarbage(rows: number): void {
+        if (!this.player) {
+            this.recorder.receiveGarbage(rows);
         }
     }
 
-    render(gl: WebGLRenderingContext): void {
-        this.spriteRenderer.render(gl, this.spriteBg);
-        this.spriteRenderer.render(gl, this.spriteField);
+    // Ends a versus match with the lines in the overlay, or shows the state of a
+    // networked match.
+    showResult(lines: string[]): void {
+        this.resultLines = lines;
+        this.setPhase(GamePhase.Result);
+    }
+
+    // Demo mode, the bot plays. A game the bot played in is not ranked.
+    toggleAutoplay(): void {
+        this.autoplay = !this.autoplay;
+        this.botPlayed = this.botPlayed || this.autoplay;
+        this.autoShift.releaseAll();
+        this.endSoftDrop();
+        this.updateOverlay();
+    }
+
+    render(): void {
+        this.draw();
+        this.renderer.flush();
+    }
+
+    // Queues the sprites of the game without drawing them, so several games can share a frame.
+    draw(): void {
+        var state = this.state;
+
+        if (this.background) {
+            // The background covers the whole canvas, repeating around the game area.
+            var view = this.renderer.viewport;
+            this.spriteBg.position = new Vec3(view.left, view.bottom, -2);
+            this.spriteBg.size = new Vec2(view.right - view.left, view.top - view.bottom);
+            this.spriteBg.textureOffset = new Vec2(
+                view.left / this.spriteBg.textureSize.x, (1 - view.top) / this.spriteBg.textureSize.y);
+            this.renderer.render(this.spriteBg);
+        }
+        this.renderer.render(this.spriteField);
 
-        for (var x = 0; x < this.field.width; ++x) {
-            for (var y = 0; y < this.field.height; ++y) {
-                var value = this.field.get(x, y);
-                if (value != 0) {
-                    var idx = value - 1;
-                    this.spritesCell[idx].position.x = (1 + x) * Game.UNIT;
-                    this.spritesCell[idx].position.y = (1 + y) * Game.UNIT;
-                    this.spriteRenderer.render(gl, this.spritesCell[idx]);
+        if (state.pendingGarbage > 0) {
+            var meterHeight = Math.min(state.pendingGarbage, state.field.height);
+            this.spriteGarbageMeter.position = this.at((1 - Game.GARBAGE_METER) / 2, 1);
+            this.spriteGarbageMeter.size = new Vec2(this.unit * Game.GARBAGE_METER, this.unit * meterHeight);
+            this.renderer.render(this.spriteGarbageMeter);
+        }
+
+        for (var x = 0; x < state.field.width; ++x) {
+            for (var y = 0; y < state.field.height; ++y) {
+                var value = state.field.get(x, y);
+                if (value != 0 && state.clearingRows.indexOf(y) == -1) {
+                    var sprite = this.cellSprite(value);
+                    sprite.position = this.at(1 + x, 1 + y);
+                    this.renderer.render(sprite);
                 }
             }
         }
+        this.renderClearingRows(state);
+
+        if (state.piece) {
+            this.renderPiece(state.piece.index, state.piece.rotation,
+                this.at(1 + state.ghostPosition.x, 1 + state.ghostPosition.y), 1, Game.GHOST_ALPHA);
+            this.renderPiece(state.piece.index, state.piece.rotation,
+                this.at(1 + state.piece.position.x, 1 + state.piece.position.y));
+            if (this.hint && this.suggestion && this.phase == GamePhase.Playing) {
+                this.renderOutline(state.piece.index, this.suggestion.rotation, this.suggestion.position);
+            }
+        }
 
-        if (this.currentPiece) {
-            for (var x = 0; x < Game.PIECE_SIZE; ++x) {
-                for (var y = 0; y < Game.PIECE_SIZE; ++y) {
-                    if (this.currentPiece[y][x] == 1) {
-                        var idx = this.currentPieceIdx;
-                        this.spritesCell[idx].position.x = (1 + x + this.currentPos.x) * Game.UNIT;
-                        this.spritesCell[idx].position.y = (1 + y + this.currentPos.y) * Game.UNIT;
-                        this.spriteRenderer.render(gl, this.spritesCell[idx]);
-                    }
-                }
+        this.spritesHud.forEach((sprite) => this.renderer.render(sprite));
+        var next = state.nextPieces;
+        if (this.slotNext && next.length > 0) {
+            this.renderSlot(this.slotNext, next[0]);
+        }
+        this.slotsQueue.forEach((slot, i) => {
+            if (i + 1 < next.length) {
+                this.renderSlot(slot, next[i + 1]);
             }
+        });
+        if (this.slotHold && state.holdPiece != null) {
+            this.renderSlot(this.slotHold, state.holdPiece);
+        }
+
+        this.textsHud.forEach((text) => this.textRenderer.render(text));
+        this.textRenderer.render(this.textSeed);
+
+        if (state.gameOver && !state.finished) {
+            this.textRenderer.render(this.textGame);
+            this.textRenderer.render(this.textOver);
         }
 
-        this.spriteRenderer.render(gl, this.spriteNextPiece);
-        var nextPiece = Game.PIECES[this.nextPieceIdx][0];
-        for (var x = 0; x < Game.PIECE_SIZE; ++x) {
-            for (var y = 0; y < Game.PIECE_SIZE; ++y) {
-                if (nextPiece[y][x] == 1) {
-                    var idx = this.nextPieceIdx;
-                    this.spritesCell[idx].position.x = (14 + x) * Game.UNIT;
-                    this.spritesCell[idx].position.y = (16 + y) * Game.UNIT;
-                    this.spriteRenderer.render(gl, this.spritesCell[idx]);
+        this.particles.render(this.renderer);
+        this.labels.forEach((label) => this.labelRenderer.render(label.text));
+
+        if (this.phase == GamePhase.Paused || this.phase == GamePhase.GameOver ||
+            this.phase == GamePhase.NameEntry || this.phase == GamePhase.HighScores || this.phase == GamePhase.Controls ||
+            this.phase == GamePhase.Result || this.phase == GamePhase.Puzzles) {
+            this.renderer.render(this.spriteOverlay);
+        }
+        this.textsOverlay.forEach((text) => this.textRenderer.render(text));
+        this.textsBoard.forEach((text) => this.labelRenderer.render(text));
+        this.labelRenderer.render(this.textDebug);
+    }
+
+    // Sprite of a cell of the field by its value.
+    private cellSprite(value: number): Sprite {
+        return value == GameEngine.GARBAGE ? this.spriteGarbage : this.spritesCell[this.engine.sprites[value - 1]];
+    }
+
+    // Shows a line of debug info in the lower right corner, null hides it.
+    setDebugText(text: string): void {
+        this.textDebug.visible = text != null;
+        this.textDebug.text = text || "";
+    }
+
+    // Full rows flash first and then collapse to their center line.
+    private renderClearingRows(state: GameState): void {
+        var p = state.clearProgress;
+        var alpha = 1;
+        var height = 1;
+        if (p < Game.CLEAR_FLASH) {
+            alpha = Math.floor(p / Game.CLEAR_FLASH * Game.CLEAR_FLASHES * 2) % 2 == 0 ? 1 : 0.3;
+        } else {
+            height = 1 - (p - Game.CLEAR_FLASH) / (1 - Game.CLEAR_FLASH);
+        }
+
+        state.clearingRows.forEach((y) => {
+            for (var x = 0; x < state.field.width; ++x) {
+                var sprite = this.cellSprite(state.field.get(x, y));
+                var spriteAlpha = sprite.alpha;
+                sprite.size = new Vec2(this.unit, this.unit * height);
+                sprite.position = this.at(1 + x, 1 + y + (1 - height) / 2);
+                sprite.alpha = alpha * spriteAlpha;
+                this.renderer.render(sprite);
+                sprite.size = new Vec2(this.unit, this.unit);
+                sprite.alpha = spriteAlpha;
+            }
+        });
+    }
+
+    // Renders the given rotation state of a piece with its lower left corner at position.
+    private renderPiece(index: number, rotation: number, position: Vec3, scale: number = 1, alpha: number = 1): void {
+        var piece = this.engine.pieces[index][rotation];
+        var sprite = this.spritesCell[this.engine.sprites[index]];
+        sprite.size = new Vec2(this.unit * scale, this.unit * scale);
+        sprite.alpha = alpha;
+        for (var y = 0; y < piece.length; ++y) {
+            for (var x = 0; x < piece[y].length; ++x) {
+                if (piece[y][x] == 1) {
+                    sprite.position.x = position.x + x * sprite.size.x;
+                    sprite.position.y = position.y + y * sprite.size.y;
+                    this.renderer.render(sprite);
                 }
             }
         }
+        sprite.size = new Vec2(this.unit, this.unit);
+        sprite.alpha = 1;
+    }
 
-        this.textRenderer.render(gl, this.textScore);
-        this.textRenderer.render(gl, this.textScoreNumbers);
-        this.textRenderer.render(gl, this.textLevel);
-        this.textRenderer.render(gl, this.textLevelNumbers);
-        this.textRenderer.render(gl, this.textScoreNext);
-        this.textRenderer.render(gl, this.textScoreNextNumbers);
+    // A piece of the side panel in its spawn rotation.
+    private renderSlot(slot: PieceSlot, index: number): void {
+        var x = slot.position.x;
+        if (slot.width > 0) {
+            var size = this.engine.pieces[index][0].length * slot.scale;
+            x += (slot.width - size) * this.unit / 2;
+        }
+        this.renderPiece(index, 0, new Vec3(x, slot.position.y), slot.scale);
+    }
 
-        if (this.gameOver) {
-            this.textRenderer.render(gl, this.textGame);
-            this.textRenderer.render(gl, this.textOver);
+    // Border around the cells of a piece on the field, drawn in its cell image.
+    private renderOutline(index: number, rotation: number, position: Vec2): void {
+        var piece = this.engine.pieces[index][rotation];
+        var sprite = this.spritesCell[this.engine.sprites[index]];
+        var line = this.unit * Game.HINT_LINE;
+        var filled = (x: number, y: number) => y >= 0 && y < piece.length && x >= 0 && x < piece[y].length && piece[y][x] == 1;
+        for (var y = 0; y < piece.length; ++y) {
+            for (var x = 0; x < piece[y].length; ++x) {
+                if (!filled(x, y))
+                    continue;
+                var cell = this.at(1 + position.x + x, 1 + position.y + y);
+                // Left, right, bottom and top edge where there is no neighbour.
+                [[-1, 0], [1, 0], [0, -1], [0, 1]].forEach((side) => {
+                    if (filled(x + side[0], y + side[1]))
+                        return;
+                    sprite.size = new Vec2(side[0] != 0 ? line : this.unit, side[1] != 0 ? line : this.unit);
+                    sprite.position = new Vec3(
+                        cell.x + (side[0] > 0 ? this.unit - line : 0),
+                        cell.y + (side[1] > 0 ? this.unit - line : 0), cell.z);
+                    this.renderer.render(sprite);
+                });
+            }
         }
+        sprite.size = new Vec2(this.unit, this.unit);
     }
 
     handleKeypress(ev: KeyboardEvent): void {
-        switch (ev.keyCode) {
-            case 0x28:
-                if (!this.gameOver && this.currentPiece) {
-                    this.move(true);
+        var code = keyCode(ev);
+        switch (this.phase) {
+            case GamePhase.Replay:
+                this.handleReplayKeypress(ev, code);
+                return;
+            case GamePhase.NameEntry:
+                this.handleNameKeypress(ev, code);
+                return;
+            case GamePhase.HighScores:
+                this.handleHighScoresKeypress(ev, code);
+                return;
+            case GamePhase.Controls:
+                this.handleControlsKeypress(ev, code);
+                return;
+            case GamePhase.Puzzles:
+                this.handlePuzzlesKeypress(ev, code);
+                return;
+        }
+
+        if (this.phase == GamePhase.GameOver && this.puzzlePack && code == "Escape") {
+            this.setPhase(GamePhase.Puzzles);
+            ev.preventDefault();
+            return;
+        } else if (this.phase == GamePhase.GameOver && code == Game.KEY_HIGH_SCORES) {
+            this.showHighScores(0);
+            ev.preventDefault();
+            return;
+        } else if (this.phase == GamePhase.Paused && code == Game.KEY_CONTROLS) {
+            this.showControls();
+            ev.preventDefault();
+            return;
+        } else if (Game.KEY_RESTART.indexOf(code) != -1 && this.phase == GamePhase.Paused) {
+            this.restart();
+            ev.preventDefault();
+            return;
+        } else if (Game.KEY_RESTART.indexOf(code) != -1 && this.phase == GamePhase.GameOver) {
+            this.playAgain();
+            ev.preventDefault();
+            return;
+        }
+
+        var control = this.controls.keyControl(code);
+        if (control == null && code == Game.KEY_MUTE) {
+            this.audio.toggleMute();
+            ev.preventDefault();
+            return;
+        } else if (control == null && code == Game.KEY_AUTOPLAY) {
+            this.toggleAutoplay();
+            ev.preventDefault();
+            return;
+        } else if (control == null && code == Game.KEY_HINT) {
+            this.hint = !this.hint;
+            ev.preventDefault();
+            return;
+        } else if (control == null && code == "Escape") {
+            // Always a way out of the pause, whatever the bindings are.
+            control = Control.Pause;
+        }
+        if (control == null) {
+            // Do not prevent the default.
+            return;
+        }
+
+        ev.preventDefault();
+        if (ev.repeat) {
+            // Held keys are handled by us, not by the key repeat of the OS.
+            return;
+        }
+        this.press(control);
+    }
+
+    // A control went down, from the keyboard, a gamepad or a touch.
+    press(control: Control): void {
+        switch (this.phase) {
+            case GamePhase.Playing:
+                switch (control) {
+                    case Control.Pause:
+                        this.pause();
+                        break;
+                    case Control.MoveLeft:
+                        this.autoShift.press(-1);
+                        break;
+                    case Control.MoveRight:
+                        this.autoShift.press(1);
+                        break;
+                    case Control.SoftDrop:
+                        this.input(GameAction.SoftDropStart);
+                        break;
+                    case Control.HardDrop:
+                        this.input(GameAction.HardDrop);
+                        break;
+                    case Control.RotateCW:
+                        this.input(GameAction.RotateCW);
+                        break;
+                    case Control.RotateCCW:
+                        this.input(GameAction.RotateCCW);
+                        break;
+                    case Control.Rotate180:
+                        this.input(GameAction.Rotate180);
+                        break;
+                    case Control.Hold:
+                        this.input(GameAction.Hold);
+                        break;
                 }
                 break;
-            case 0x26:
-                if (!this.gameOver && this.currentPiece) {
-                    this.rotatePiece();
+            case GamePhase.Ready:
+                if (control == Control.Pause) {
+                    this.pause();
                 }
                 break;
-            case 0x25:
-                if (!this.gameOver && this.currentPiece) {
-                    var nextPos = new Vec2(this.currentPos.x - 1, this.currentPos.y);
-                    if (!this.collisionTest(this.currentPiece, nextPos)) {
-                        this.currentPos = nextPos;
-                    }
+            case GamePhase.Paused:
+                if (control == Control.Pause || control == Control.RotateCW) {
+                    this.resume();
                 }
                 break;
-            case 0x27:
-                if (!this.gameOver && this.currentPiece) {
-                    var nextPos = new Vec2(this.currentPos.x + 1, this.currentPos.y);
-                    if (!this.collisionTest(this.currentPiece, nextPos)) {
-                        this.currentPos = nextPos;
-                    }
+            case GamePhase.GameOver:
+                if (control == Control.Pause || control == Control.RotateCW) {
+                    this.playAgain();
+                }
+                break;
+            case GamePhase.Replay:
+                if (control == Control.Pause) {
+                    this.player.paused = !this.player.paused;
+                }
+                break;
+            // The menus work with the d-pad (up is hard drop, down is soft drop)
+            // and rotate clockwise or pause to confirm.
+            case GamePhase.NameEntry:
+                switch (control) {
+                    case Control.MoveLeft:
+                        this.nameEntry.move(-1);
+                        break;
+                    case Control.MoveRight:
+                        this.nameEntry.move(1);
+                        break;
+                    case Control.HardDrop:
+                        this.nameEntry.cycle(1);
+                        break;
+                    case Control.SoftDrop:
+                        this.nameEntry.cycle(-1);
+                        break;
+                    case Control.RotateCW:
+                    case Control.Pause:
+                        this.saveHighScore();
+                        return;
+                }
+                this.blinkTime = 0;
+                this.updateOverlay();
+                break;
+            case GamePhase.HighScores:
+                switch (control) {
+                    case Control.HardDrop:
+                    case Control.SoftDrop:
+                        this.selectScore(control == Control.HardDrop ? -1 : 1);
+                        break;
+                    case Control.Pause:
+                        this.restart();
+                        break;
+                    case Control.RotateCCW:
+                        this.setPhase(GamePhase.GameOver);
+                        break;
+                }
+                break;
+            case GamePhase.Puzzles:
+                switch (control) {
+                    case Control.HardDrop:
+                    case Control.SoftDrop:
+                        this.selectPuzzle(control == Control.HardDrop ? -1 : 1);
+                        break;
+                    case Control.RotateCW:
+                    case Control.Pause:
+                        this.startPuzzle(this.selectedPuzzle);
+                        break;
+                }
+                break;
+            case GamePhase.Controls:
+                if (this.waitingForBinding || this.justBound)
+                    break;
+                switch (control) {
+                    case Control.HardDrop:
+                    case Control.SoftDrop:
+                        this.selectControl(control == Control.HardDrop ? -1 : 1);
+                        break;
+                    case Control.RotateCW:
+                        this.waitingForBinding = true;
+                        this.updateBoard();
+                        break;
+                    case Control.Pause:
+                        this.setPhase(GamePhase.Paused);
+                        break;
+                }
+                break;
+        }
+    }
+
+    // A control went up.
+    release(control: Control): void {
+        switch (control) {
+            case Control.MoveLeft:
+                this.autoShift.release(-1);
+                break;
+            case Control.MoveRight:
+                this.autoShift.release(1);
+                break;
+            case Control.SoftDrop:
+                this.endSoftDrop();
+                break;
+        }
+    }
+
+    // Any gamepad button that went down, binds it while the controls screen waits for one.
+    private handleButton(id: string, button: number): void {
+        if (this.phase == GamePhase.Controls && this.waitingForBinding) {
+            this.controls.bindButton(id, this.selectedControl, button);
+            this.waitingForBinding = false;
+            this.justBound = true;
+            this.updateBoard();
+        }
+    }
+
+    private handleReplayKeypress(ev: KeyboardEvent, code: string): void {
+        var seek = Math.round(Game.REPLAY_SEEK / GameEngine.FRAME_TIME);
+        switch (code) {
+            case "Space":
+                this.player.paused = !this.player.paused;
+                break;
+            case "KeyF":
+                this.player.faster();
+                break;
+            case "ArrowLeft":
+                this.player.seek(this.player.frame - seek);
+                break;
+            case "ArrowRight":
+                this.player.seek(this.player.frame + seek);
+                break;
+            case "Home":
+                this.player.seek(0);
+                break;
+            case "Escape":
+                this.restart();
+                break;
+            default:
+                return;
+        }
+
+        ev.preventDefault();
+    }
+
+    private handleNameKeypress(ev: KeyboardEvent, code: string): void {
+        switch (code) {
+            case "ArrowUp":
+                this.nameEntry.cycle(1);
+                break;
+            case "ArrowDown":
+                this.nameEntry.cycle(-1);
+                break;
+            case "ArrowLeft":
+                this.nameEntry.move(-1);
+                break;
+            case "ArrowRight":
+                this.nameEntry.move(1);
+                break;
+            case "Backspace":
+                this.nameEntry.backspace();
+                break;
+            case "Enter":
+            case "NumpadEnter":
+                this.saveHighScore();
+                break;
+            default:
+                // The character of the keyboard layout, not of the key position.
+                var key: string = (<any> ev).key;
+                if (key && key.length == 1) {
+                    this.nameEntry.type(key);
+                    break;
                 }
+                return;
+        }
+
+        this.blinkTime = 0;
+        this.updateOverlay();
+        ev.preventDefault();
+    }
+
+    private handleHighScoresKeypress(ev: KeyboardEvent, code: string): void {
+        switch (code) {
+            case "ArrowUp":
+                this.selectScore(-1);
+                break;
+            case "ArrowDown":
+                this.selectScore(1);
+                break;
+            case "Enter":
+            case "NumpadEnter":
+            case "KeyR":
+                this.restart();
+                break;
+            case "Escape":
+            case Game.KEY_HIGH_SCORES:
+                this.setPhase(GamePhase.GameOver);
                 break;
             default:
-                // Do not prevent the default.
                 return;
         }
 
         ev.preventDefault();
     }
+
+    private selectScore(direction: number): void {
+        var count = this.highScores.ranking(this.lastScore ? this.lastScore.mode : scoreMode(this.engine.rules)).length;
+        this.selectedScore = Math.max(0, Math.min(count - 1, this.selectedScore + direction));
+        this.updateBoard();
+    }
+
+    private handlePuzzlesKeypress(ev: KeyboardEvent, code: string): void {
+        switch (code) {
+            case "ArrowUp":
+                this.selectPuzzle(-1);
+                break;
+            case "ArrowDown":
+                this.selectPuzzle(1);
+                break;
+            case "Enter":
+            case "NumpadEnter":
+            case "Space":
+                this.startPuzzle(this.selectedPuzzle);
+                break;
+            default:
+                return;
+        }
+
+        ev.preventDefault();
+    }
+
+    private handleControlsKeypress(ev: KeyboardEvent, code: string): void {
+        ev.preventDefault();
+        if (this.waitingForBinding) {
+            if (code != "Escape") {
+                this.controls.bindKey(this.selectedControl, code);
+            }
+            this.waitingForBinding = false;
+            this.updateBoard();
+            return;
+        }
+
+        switch (code) {
+            case "ArrowUp":
+                this.selectControl(-1);
+                break;
+            case "ArrowDown":
+                this.selectControl(1);
+                break;
+            case "Enter":
+            case "NumpadEnter":
+                this.waitingForBinding = true;
+                this.updateBoard();
+                break;
+            case "Backspace":
+            case "Delete":
+                this.controls.clear(this.selectedControl, this.gamepad.lastId);
+                this.updateBoard();
+                break;
+            case "KeyD":
+                this.controls.reset();
+                this.updateBoard();
+                break;
+            case "Escape":
+            case Game.KEY_CONTROLS:
+                this.setPhase(GamePhase.Paused);
+                break;
+        }
+    }
+
+    private selectControl(direction: number): void {
+        this.selectedControl = Math.max(0, Math.min(Controls.NAMES.length - 1, this.selectedControl + direction));
+        this.updateBoard();
+    }
+
+    // Opens the controls screen, pausing the game if it is running.
+    showControls(): void {
+        if (this.phase == GamePhase.Playing || this.phase == GamePhase.Ready) {
+            this.pause();
+        }
+        if (this.phase == GamePhase.Paused) {
+            this.selectedControl = 0;
+            this.waitingForBinding = false;
+            this.setPhase(GamePhase.Controls);
+        }
+    }
+
+    handleKeyup(ev: KeyboardEvent): void {
+        var control = this.controls.keyControl(keyCode(ev));
+        if (control == null)
+            return;
+
+        ev.preventDefault();
+        this.release(control);
+    }
+
+    // Key up events get lost while the window has no focus, pausing also forgets all held keys.
+    handleBlur(): void {
+        if (this.pausable) {
+            this.pause();
+        } else {
+            this.autoShift.releaseAll();
+            this.endSoftDrop();
+        }
+    }
 }
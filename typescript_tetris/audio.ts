@@ -0,0 +1,283 @@
+﻿// Sound effects and background music on the Web Audio API. Everything is
+// synthesized, so there are no sound files to load.
+
+enum Sound {
+    Move,
+    Rotate,
+    Lock,
+    LineClear,
+    Tetris,  // four lines at once
+    LevelUp,
+    GameOver,
+}
+
+// One oscillator note of a sound effect, the pitch slides from start to end.
+interface Tone {
+    wave: string;  // "square", "triangle", "sawtooth" or "sine"
+    start: number;  // Hz
+    end: number;  // Hz
+    delay: number;  // s after the sound starts
+    duration: number;  // s
+    volume: number;
+}
+
+// Effects and music with master, effect and music volumes that are kept in
+// localStorage. Web Audio is not known to older type definitions, so its nodes are untyped.
+class AudioSystem {
+    static STORAGE_KEY = "tetris-audio";
+    static VERSION = 1;
+    static TEMPO = 144;  // quarter notes per minute
+    static LOOKAHEAD = 0.2;  // s of music scheduled ahead, more than a frame can take
+    static MUSIC_VOLUME = 0.15;  // the music stays below the effects
+
+    // By Sound.
+    static SOUNDS: Tone[][] = [
+        [{ wave: "square", start: 220, end: 220, delay: 0, duration: 0.03, volume: 0.15 }],
+        [{ wave: "square", start: 440, end: 660, delay: 0, duration: 0.05, volume: 0.15 }],
+        [{ wave: "triangle", start: 180, end: 60, delay: 0, duration: 0.1, volume: 0.6 }],
+        [
+            { wave: "square", start: 523, end: 523, delay: 0, duration: 0.08, volume: 0.25 },
+            { wave: "square", start: 784, end: 784, delay: 0.08, duration: 0.12, volume: 0.25 },
+        ],
+        [
+            { wave: "square", start: 523, end: 523, delay: 0, duration: 0.08, volume: 0.3 },
+            { wave: "square", start: 659, end: 659, delay: 0.08, duration: 0.08, volume: 0.3 },
+            { wave: "square", start: 784, end: 784, delay: 0.16, duration: 0.08, volume: 0.3 },
+            { wave: "square", start: 1047, end: 1047, delay: 0.24, duration: 0.3, volume: 0.3 },
+        ],
+        [
+            { wave: "triangle", start: 392, end: 392, delay: 0, duration: 0.1, volume: 0.4 },
+            { wave: "triangle", start: 523, end: 523, delay: 0.1, duration: 0.1, volume: 0.4 },
+            { wave: "triangle", start: 659, end: 659, delay: 0.2, duration: 0.1, volume: 0.4 },
+            { wave: "triangle", start: 784, end: 784, delay: 0.3, duration: 0.25, volume: 0.4 },
+        ],
+        [
+            { wave: "sawtooth", start: 392, end: 98, delay: 0, duration: 1.2, volume: 0.3 },
+            { wave: "square", start: 196, end: 49, delay: 0.1, duration: 1.2, volume: 0.2 },
+        ],
+    ];
+
+    // Korobeiniki, as MIDI note and length in eighths. Note 0 is a rest.
+    static MELODY = [
+        [76, 2], [71, 1], [72, 1], [74, 2], [72, 1], [71, 1],
+        [69, 2], [69, 1], [72, 1], [76, 2], [74, 1], [72, 1],
+        [71, 3], [72, 1], [74, 2], [76, 2],
+        [72, 2], [69, 2], [69, 2], [0, 2],
+        [74, 3], [77, 1], [81, 2], [79, 1], [77, 1],
+        [76, 3], [72, 1], [76, 2], [74, 1], [72, 1],
+        [71, 2], [71, 1], [72, 1], [74, 2], [76, 2],
+        [72, 2], [69, 2], [69, 2], [0, 2],
+    ];
+    // Root of each bar, played in quarters.
+    static BASS = [40, 45, 40, 45, 38, 36, 40, 45];
+
+    master: number;  // volumes from 0 to 1
+    effects: number;
+    music: number;
+    muted: boolean;
+
+    private context: any;  // null until the first user gesture
+    private masterGain: any;
+    private effectsGain: any;
+    private musicGain: any;
+    private playing: boolean;  // whether the music should play
+    private noteTime: number;  // context time of the next melody note
+    private note: number;  // index into MELODY
+    private eighth: number;  // eighths since the start of the loop, for the bass
+
+    constructor(private storage: Storage) {
+        this.master = 0.8;
+        this.effects = 1;
+        this.music = 0.6;
+        this.muted = false;
+        this.context = null;
+        this.playing = false;
+        this.note = 0;
+        this.eighth = 0;
+        if (storage) {
+            try {
+                var json = storage.getItem(AudioSystem.STORAGE_KEY);
+                if (json) {
+                    var data = JSON.parse(json);
+                    if (data && data.version == AudioSystem.VERSION) {
+                        this.master = data.master;
+                        this.effects = data.effects;
+                        this.music = data.music;
+                        this.muted = data.muted;
+                    }
+                }
+            } catch (e) {
+                console.log("Could not read the audio settings: " + e);
+            }
+        }
+    }
+
+    static get supported(): boolean {
+        return !!((<any> window).AudioContext || (<any> window).webkitAudioContext);
+    }
+
+    // Browsers only let a page make sounds after the user interacted with it, so
+    // this has to be called from an input event. Calling it again does no harm.
+    unlock(): void {
+        if (!AudioSystem.supported)
+            return;
+        if (!this.context) {
+            var AudioContextClass = (<any> window).AudioContext || (<any> window).webkitAudioContext;
+            this.context = new AudioContextClass();
+            this.masterGain = this.context.createGain();
+            this.masterGain.connect(this.context.destination);
+            this.effectsGain = this.context.createGain();
+            this.effectsGain.connect(this.masterGain);
+            this.musicGain = this.context.createGain();
+            this.musicGain.connect(this.masterGain);
+            this.applyVolumes();
+            this.noteTime = this.context.currentTime;
+        }
+        if (this.context.state == "suspended") {
+            this.context.resume();
+        }
+    }
+
+    // A volume ("master", "effects" or "music") from 0 to 1.
+    volume(kind: string): number {
+        switch (kind) {
+            case "master":
+                return this.master;
+            case "effects":
+                return this.effects;
+            case "music":
+                return this.music;
+            default:
+                throw "Unknown volume: " + kind;
+        }
+    }
+
+    setVolume(kind: string, value: number): void {
+        value = Math.max(0, Math.min(1, value));
+        switch (kind) {
+            case "master":
+                this.master = value;
+                break;
+            case "effects":
+                this.effects = value;
+                break;
+            case "music":
+                this.music = value;
+                break;
+            default:
+                throw "Unknown volume: " + kind;
+        }
+        this.applyVolumes();
+        this.save();
+    }
+
+    toggleMute(): void {
+        this.muted = !this.muted;
+        this.applyVolumes();
+        this.save();
+    }
+
+    play(sound: Sound): void {
+        if (!this.context || this.muted)
+            return;
+        var now = this.context.currentTime;
+        AudioSystem.SOUNDS[sound].forEach((tone) => {
+            this.tone(this.effectsGain, tone.wave, tone.start, tone.end, now + tone.delay, tone.duration, tone.volume);
+        });
+    }
+
+    // Starts or pauses the music, it goes on where it was paused.
+    playMusic(playing: boolean): void {
+        if (playing && !this.playing && this.context) {
+            this.noteTime = this.context.currentTime;
+        }
+        this.playing = playing;
+    }
+
+    // Starts the music from the beginning the next time it plays.
+    rewindMusic(): void {
+        this.note = 0;
+        this.eighth = 0;
+    }
+
+    // Schedules the music, has to be called regularly.
+    update(): void {
+        if (!this.context || !this.playing)
+            return;
+
+        var eighth = 60 / AudioSystem.TEMPO / 2;
+        var until = this.context.currentTime + AudioSystem.LOOKAHEAD;
+        if (this.noteTime < this.context.currentTime) {
+            // Behind after the page was in the background, skip instead of catching up.
+            this.noteTime = this.context.currentTime;
+        }
+        while (this.noteTime < until) {
+            var note = AudioSystem.MELODY[this.note];
+            if (note[0] != 0) {
+                this.tone(this.musicGain, "square", AudioSystem.frequency(note[0]), AudioSystem.frequency(note[0]),
+                    this.noteTime, note[1] * eighth * 0.9, 1);
+            }
+            // The bass plays on the quarters in between.
+            for (var i = 0; i < note[1]; ++i) {
+                var beat = this.eighth + i;
+                if (beat % 2 == 0) {
+                    var bass = AudioSystem.BASS[Math.floor(beat / 8) % AudioSystem.BASS.length];
+                    this.tone(this.musicGain, "triangle", AudioSystem.frequency(bass), AudioSystem.frequency(bass),
+                        this.noteTime + i * eighth, eighth * 1.8, 1.5);
+                }
+            }
+            this.noteTime += note[1] * eighth;
+            this.eighth += note[1];
+            this.note = (this.note + 1) % AudioSystem.MELODY.length;
+            if (this.note == 0) {
+                this.eighth = 0;
+            }
+        }
+    }
+
+    static frequency(midiNote: number): number {
+        return 440 * Math.pow(2, (midiNote - 69) / 12);
+    }
+
+    // Plays one note with a short attack and an exponential fade out.
+    private tone(output: any, wave: string, start: number, end: number, time: number, duration: number, volume: number): void {
+        var oscillator = this.context.createOscillator();
+        var gain = this.context.createGain();
+        oscillator.type = wave;
+        oscillator.frequency.setValueAtTime(start, time);
+        if (end != start) {
+            oscillator.frequency.exponentialRampToValueAtTime(end, time + duration);
+        }
+        gain.gain.setValueAtTime(0.0001, time);
+        gain.gain.exponentialRampToValueAtTime(volume, time + 0.005);
+        gain.gain.exponentialRampToValueAtTime(0.0001, time + duration);
+        oscillator.connect(gain);
+        gain.connect(output);
+        oscillator.start(time);
+        oscillator.stop(time + duration);
+    }
+
+    private applyVolumes(): void {
+        if (!this.context)
+            return;
+        this.masterGain.gain.value = this.muted ? 0 : this.master;
+        this.effectsGain.gain.value = this.effects;
+        this.musicGain.gain.value = this.music * AudioSystem.MUSIC_VOLUME;
+    }
+
+    private save(): void {
+        if (!this.storage)
+            return;
+        try {
+            this.storage.setItem(AudioSystem.STORAGE_KEY, JSON.stringify({
+                version: AudioSystem.VERSION,
+                master: this.master,
+                effects: this.effects,
+                music: this.music,
+                muted: this.muted,
+            }));
+        } catch (e) {
+            console.log("Could not save the audio settings: " + e);
+        }
+    }
+}
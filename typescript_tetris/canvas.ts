@@ -0,0 +1,67 @@
+﻿/// <reference path="render.ts" />
+
+// Fallback for machines without WebGL. Slower, but looks the same.
+class CanvasRenderer implements Renderer {
+    private queue: SpriteQueue;
+
+    viewport: Viewport;
+
+    constructor(private context: CanvasRenderingContext2D) {
+        this.queue = new SpriteQueue();
+        this.resize(context.canvas.width, context.canvas.height);
+    }
+
+    resize(width: number, height: number): void {
+        this.viewport = new Viewport(width, height);
+    }
+
+    render(sprite: Sprite): void {
+        this.queue.push(sprite);
+    }
+
+    flush(): void {
+        this.queue.take().forEach((sprite) => {
+            this.context.globalAlpha = sprite.alpha;
+            if (sprite.image.loaded) {
+                this.drawTiled(sprite);
+            } else {
+                this.context.fillStyle = "#ff00ff";
+                this.context.fillRect(this.toX(sprite.x0), this.toY(sprite.y1),
+                    this.toX(sprite.x1) - this.toX(sprite.x0), this.toY(sprite.y0) - this.toY(sprite.y1));
+            }
+        });
+        this.context.globalAlpha = 1;
+    }
+
+    // Canvas pixels, y goes down.
+    private toX(x: number): number {
+        return (x - this.viewport.left) * this.viewport.scale;
+    }
+
+    private toY(y: number): number {
+        return (this.viewport.top - y) * this.viewport.scale;
+    }
+
+    // Draws each repetition of the image that the texture coordinates cover separately.
+    private drawTiled(sprite: QueuedSprite): void {
+        var image = sprite.image.image;
+        var scaleX = (sprite.x1 - sprite.x0) / (sprite.u1 - sprite.u0);
+        var scaleY = (sprite.y1 - sprite.y0) / (sprite.v1 - sprite.v0);
+        for (var tileY = Math.floor(sprite.v0); tileY < sprite.v1; ++tileY) {
+            var v0 = Math.max(sprite.v0, tileY);
+            var v1 = Math.min(sprite.v1, tileY + 1);
+            for (var tileX = Math.floor(sprite.u0); tileX < sprite.u1; ++tileX) {
+                var u0 = Math.max(sprite.u0, tileX);
+                var u1 = Math.min(sprite.u1, tileX + 1);
+                var left = this.toX(sprite.x0 + (u0 - sprite.u0) * scaleX);
+                var right = this.toX(sprite.x0 + (u1 - sprite.u0) * scaleX);
+                var top = this.toY(sprite.y1 - (v0 - sprite.v0) * scaleY);
+                var bottom = this.toY(sprite.y1 - (v1 - sprite.v0) * scaleY);
+                this.context.drawImage(image,
+                    (u0 - tileX) * image.width, (v0 - tileY) * image.height,
+                    (u1 - u0) * image.width, (v1 - v0) * image.height,
+                    left, top, right - left, bottom - top);
+            }
+        }
+    }
+}
@@ -0,0 +1,252 @@
+﻿/// <reference path="util.ts" />
+
+// Physical inputs (keys by KeyboardEvent.code and gamepad buttons) mapped to
+// the controls of the game. The mappings can be changed and are kept in
+// localStorage.
+
+enum Control {
+    MoveLeft,
+    MoveRight,
+    SoftDrop,
+    HardDrop,
+    RotateCW,
+    RotateCCW,
+    Rotate180,
+    Hold,
+    Pause,
+}
+
+// The layout-independent name of the key, e.g. "KeyZ" is the same key on QWERTY and QWERTZ.
+function keyCode(ev: KeyboardEvent): string {
+    // Older browsers only have the deprecated keyCode.
+    return (<any> ev).code || "Legacy" + ev.keyCode;
+}
+
+// Short upper case name of a key code for the screen, e.g. "ArrowLeft" is "LEFT".
+function keyName(code: string): string {
+    if (code.indexOf("Arrow") == 0) {
+        return code.substr(5).toUpperCase();
+    }
+    return code.replace(/^(Key|Digit)/, "").replace(/Left$/, " L").replace(/Right$/, " R").toUpperCase();
+}
+
+// Minimal view of the Gamepad API, which older type definitions do not know.
+interface GamepadState {
+    id: string;
+    index: number;
+    connected: boolean;
+    buttons: { pressed: boolean; value: number }[];
+    axes: number[];
+}
+
+class Controls {
+    static STORAGE_KEY = "tetris-controls";
+    static VERSION = 1;
+    static MAX_BINDINGS = 2;  // per control and device
+
+    static NAMES = ["LEFT", "RIGHT", "SOFT", "HARD", "ROT CW", "ROT CCW", "ROT 180", "HOLD", "PAUSE"];
+
+    // By Control.
+    static DEFAULT_KEYS = [
+        ["ArrowLeft"],
+        ["ArrowRight"],
+        ["ArrowDown"],
+        ["Space"],
+        ["ArrowUp", "KeyX"],
+        ["KeyZ"],
+        ["KeyA"],
+        ["KeyC", "ShiftLeft"],
+        ["KeyP", "Escape"],
+    ];
+
+    // Buttons of the standard gamepad layout, by Control.
+    static DEFAULT_BUTTONS = [
+        [14],  // d-pad left
+        [15],  // d-pad right
+        [13],  // d-pad down
+        [12],  // d-pad up
+        [0],  // A / cross
+        [1],  // B / circle
+        [3],  // Y / triangle
+        [2, 4],  // X / square, left bumper
+        [9],  // start
+    ];
+
+    keys: string[][];  // by Control
+    private gamepads: { [id: string]: number[][] };  // buttons by Control for each controller
+    private defaultKeys: string[][];
+
+    // Other default keys are for a second player on the same keyboard, who
+    // should not use the storage of the first.
+    constructor(private storage: Storage, defaultKeys: string[][] = Controls.DEFAULT_KEYS) {
+        this.defaultKeys = defaultKeys;
+        this.keys = cloneData(defaultKeys);
+        this.gamepads = {};
+        if (storage) {
+            try {
+                var json = storage.getItem(Controls.STORAGE_KEY);
+                if (json) {
+                    var data = JSON.parse(json);
+                    if (data && data.version == Controls.VERSION && data.keys && data.keys.length == Controls.NAMES.length) {
+                        this.keys = data.keys;
+                        this.gamepads = data.gamepads || {};
+                    }
+                }
+            } catch (e) {
+                console.log("Could not read the controls: " + e);
+            }
+        }
+    }
+
+    // The control bound to the key, null if there is none.
+    keyControl(code: string): Control {
+        for (var control = 0; control < this.keys.length; ++control) {
+            if (this.keys[control].indexOf(code) != -1) {
+                return control;
+            }
+        }
+        return null;
+    }
+
+    // Buttons by Control of the controller with this id.
+    buttons(id: string): number[][] {
+        return this.gamepads[id] || Controls.DEFAULT_BUTTONS;
+    }
+
+    // Binds the key to the control and takes it away from any other control. The
+    // oldest binding goes if the control has too many.
+    bindKey(control: Control, code: string): void {
+        this.keys.forEach((codes) => {
+            var index = codes.indexOf(code);
+            if (index != -1) {
+                codes.splice(index, 1);
+            }
+        });
+        this.keys[control] = [code].concat(this.keys[control]).slice(0, Controls.MAX_BINDINGS);
+        this.save();
+    }
+
+    bindButton(id: string, control: Control, button: number): void {
+        var buttons = cloneData(this.buttons(id));
+        buttons.forEach((list) => {
+            var index = list.indexOf(button);
+            if (index != -1) {
+                list.splice(index, 1);
+            }
+        });
+        buttons[control] = [button].concat(buttons[control]).slice(0, Controls.MAX_BINDINGS);
+        this.gamepads[id] = buttons;
+        this.save();
+    }
+
+    // Removes all keys and the buttons of the controller with this id (null for none) from the control.
+    clear(control: Control, id: string): void {
+        this.keys[control] = [];
+        if (id != null) {
+            var buttons = cloneData(this.buttons(id));
+            buttons[control] = [];
+            this.gamepads[id] = buttons;
+        }
+        this.save();
+    }
+
+    reset(): void {
+        this.keys = cloneData(this.defaultKeys);
+        this.gamepads = {};
+        this.save();
+    }
+
+    private save(): void {
+        if (!this.storage)
+            return;
+        try {
+            this.storage.setItem(Controls.STORAGE_KEY, JSON.stringify({
+                version: Controls.VERSION,
+                keys: this.keys,
+                gamepads: this.gamepads,
+            }));
+        } catch (e) {
+            console.log("Could not save the controls: " + e);
+        }
+    }
+}
+
+// Polls the connected gamepads once per frame and reports controls that were
+// pressed or released since the last poll. The left stick works like the d-pad.
+class GamepadInput {
+    static STICK_THRESHOLD = 0.5;
+
+    onButton: (id: string, button: number) => void;  // any button that went down, e.g. for rebinding
+    lastId: string;  // controller used last, null if none was used yet
+    padIndex: number;  // only this controller counts, null for all of them
+
+    private held: boolean[][];  // by gamepad index, then by Control
+    private buttonsHeld: boolean[][];  // by gamepad index, then by button
+
+    constructor(private controls: Controls, private press: (control: Control) => void, private release: (control: Control) => void) {
+        this.onButton = null;
+        this.lastId = null;
+        this.padIndex = null;
+        this.held = [];
+        this.buttonsHeld = [];
+    }
+
+    static get supported(): boolean {
+        return !!(<any> navigator).getGamepads;
+    }
+
+    poll(): void {
+        if (!GamepadInput.supported)
+            return;
+        var pads: GamepadState[] = (<any> navigator).getGamepads();
+        for (var i = 0; i < pads.length; ++i) {
+            if (this.padIndex != null && i != this.padIndex)
+                continue;
+            var pad = pads[i];
+            if (pad && pad.connected) {
+                this.pollPad(pad);
+            } else if (this.held[i]) {
+                // Disconnected: let go of everything it held.
+                this.held[i].forEach((held, control) => {
+                    if (held) {
+                        this.release(control);
+                    }
+                });
+                this.held[i] = null;
+                this.buttonsHeld[i] = null;
+            }
+        }
+    }
+
+    private pollPad(pad: GamepadState): void {
+        var buttonsHeld = this.buttonsHeld[pad.index] || [];
+        var pressed = pad.buttons.map((b) => b.pressed);
+        pressed.forEach((down, button) => {
+            if (down && !buttonsHeld[button]) {
+                this.lastId = pad.id;
+                if (this.onButton) {
+                    this.onButton(pad.id, button);
+                }
+            }
+        });
+        this.buttonsHeld[pad.index] = pressed;
+
+        var buttons = this.controls.buttons(pad.id);
+        var now = buttons.map((list) => list.some((button) => !!pressed[button]));
+        if (pad.axes.length >= 2) {
+            now[Control.MoveLeft] = now[Control.MoveLeft] || pad.axes[0] < -GamepadInput.STICK_THRESHOLD;
+            now[Control.MoveRight] = now[Control.MoveRight] || pad.axes[0] > GamepadInput.STICK_THRESHOLD;
+            now[Control.SoftDrop] = now[Control.SoftDrop] || pad.axes[1] > GamepadInput.STICK_THRESHOLD;
+        }
+
+        var held = this.held[pad.index] || [];
+        now.forEach((down, control) => {
+            if (down && !held[control]) {
+                this.press(control);
+            } else if (!down && held[control]) {
+                this.release(control);
+            }
+        });
+        this.held[pad.index] = now;
+    }
+}
@@ -0,0 +1,817 @@
+﻿/// <reference path="util.ts" />
+/// <reference path="modes.ts" />
+/// <reference path="puzzles.ts" />
+/// <reference path="randomizer.ts" />
+/// <reference path="rotation.ts" />
+/// <reference path="scoring.ts" />
+
+// The rules of the game without any rendering, DOM or timers. Time only
+// passes when tick() is called, so the engine can be driven by the browser,
+// by a test under Node or by anything else.
+
+enum GameAction {
+    MoveLeft,
+    MoveRight,
+    RotateCW,
+    RotateCCW,
+    Rotate180,
+    Hold,
+    HardDrop,
+    SoftDropStart,  // soft drop lasts until SoftDropEnd
+    SoftDropEnd,
+}
+
+enum GameEventType {
+    Award,  // points were awarded for a clear, see label and points
+    LineClear,  // rows are full and will be removed, see rows
+    HardDrop,  // a piece was hard dropped, see cells
+    Move,  // the piece moved a column to the side
+    Rotate,  // the piece rotated
+    Lock,  // the piece locked, see rows (empty if nothing was cleared)
+    LevelUp,  // see level
+    GameOver,  // topped out
+    Finish,  // the goal or the time limit of the mode was reached
+    Attack,  // garbage for the opponent, see lines
+    Garbage,  // garbage of the opponent came in at the bottom, see lines
+}
+
+interface GameEvent {
+    type: GameEventType;
+    label?: string;
+    points?: number;
+    rows?: number[];
+    cells?: Vec2[];  // field cells of the piece
+    piece?: number;
+    level?: number;
+    lines?: number;
+}
+
+interface ActivePiece {
+    index: number;  // index into GameEngine.pieces
+    rotation: number;  // index of the rotation state
+    position: Vec2;  // position of the lower left corner of the piece matrix
+}
+
+interface GameRules {
+    randomizer: string;  // "bag", "uniform" or "history"
+    seed: number;  // seed of the piece randomizer, the same seed deals the same pieces
+    rotation: string;  // "srs" or "classic"
+    pieceSet: PieceSet;  // replaces the pieces and kicks of the rotation system, null for the standard pieces
+    width: number;  // size of the board
+    height: number;
+    lockDelay: number;  // ms a piece may rest on the stack before it locks, 0 locks on the next gravity step
+    lockResets: number;  // how often moving or rotating a resting piece restarts the lock delay
+    scoring: string;  // "guideline" or "nes"
+    lineClearDelay: number;  // ms full rows stay before they are removed and the next piece spawns
+    mode: string;  // see GAME_MODES
+    puzzle: Puzzle;  // starting field, pieces and goal of a puzzle, null for a normal game
+}
+
+interface GameState {
+    field: Array2D<number>;  // 0 is empty, GameEngine.GARBAGE or piece index + 1 (see GameEngine.sprites for its image)
+    piece: ActivePiece;  // null between locking a piece and spawning the next
+    ghostPosition: Vec2;  // where the piece would land, null if there is no piece
+    nextPieces: number[];  // the coming pieces in order, GameEngine.NEXT_PIECES of them or fewer at the end of a puzzle
+    holdPiece: number;  // null if nothing is held
+    canHold: boolean;  // false once the current piece has been swapped in from hold
+    score: number;
+    lines: number;  // cleared so far
+    level: number;
+    gameOver: boolean;
+    clearingRows: number[];  // full rows waiting for removal, ascending
+    clearProgress: number;  // [0; 1] how far the line clear delay has passed
+    pendingGarbage: number;  // rows received from the opponent that come in with the next lock without a clear
+    finished: boolean;  // the game ended by the goal or time limit of the mode, gameOver is set too
+}
+
+class GameEngine {
+    static FRAME_TIME = 1000 / 60;  // the engine advances in fixed steps of this many ms
+    static SOFT_DROP_FACTOR = 20;  // soft drop makes gravity this much faster
+    static GARBAGE = -1;  // field value of a garbage cell
+    static ATTACK = [0, 0, 1, 2, 4];  // garbage rows sent for a clear of this many lines, T-spins send two per line
+    static NEXT_PIECES = 6;  // pieces dealt in advance, the most a next queue can show
+
+
+    private currentPieceIdx: number;
+    private currentPos: Vec2;
+    private currentRotIdx: number;
+    private nextPieceIdxs: number[];
+    private holdPieceIdx: number;
+    private holdUsed: boolean;
+
+    private field: Array2D<number>;
+    private gameOver: boolean;
+    private finished: boolean;
+    private score: number;
+    private lines: number;
+    private level: number;
+
+    private rules_: GameRules;
+    private mode_: GameMode;
+    private randomizer: Randomizer;
+    private rotationSystem: RotationSystem;
+    private scoring: ScoringSystem;
+
+    private accumulator: number;  // ms not yet consumed by a frame
+    private frame_: number;  // frames stepped so far
+    private placed_: number;
+    private gravity: number;  // fraction of a row the piece has fallen
+    private softDropping_: boolean;  // SoftDropStart came without a SoftDropEnd
+    private lockTimer: number;  // ms the piece has been resting on the stack
+    private lockResets: number;  // lock delay resets used since the piece reached its lowest row
+    private lowestRow: number;
+    private lastKick: number;  // index of the kick if the last move was a rotation, otherwise -1
+    private lastKicks: number;  // length of the kick table of that rotation
+    private clearingRows: number[];
+    private clearTimer: number;  // ms since the rows in clearingRows were completed
+    private bufferedInputs: GameAction[];  // inputs while there is no piece, applied once one spawns
+    private pendingGarbage: number[];  // rows of each attack received, oldest first
+    private garbagePrng: Prng;  // picks the holes, seeded like the pieces so both players of a match get the same
+    private snapshot: GameState;
+
+    onEvent: (event: GameEvent) => void;  // called for everything worth a sound or an effect
+
+    private get currentPiece(): number[][] {
+        if (this.currentPieceIdx == null) {
+            return null;
+        } else {
+            return this.pieces[this.currentPieceIdx][this.currentRotIdx];
+        }
+    }
+
+    constructor(rules: GameRules) {
+        this.rules_ = rules;
+        this.mode_ = findGameMode(rules.mode);
+        this.rotationSystem = createRotationSystem(rules.rotation, rules.pieceSet);
+        if (this.mode_.name == "puzzle" && !rules.puzzle) {
+            throw "The puzzle mode needs a puzzle, see ?puzzles";
+        }
+        if (rules.puzzle) {
+            if (rules.pieceSet || rules.puzzle.field[0].length != rules.width) {
+                throw "The puzzle needs the standard pieces and a board as wide as its field";
+            }
+            this.randomizer = new SequenceRandomizer(rules.puzzle.pieces.split("").map((c) => PUZZLE_PIECES.indexOf(c)));
+        } else {
+            this.randomizer = createRandomizer(rules.randomizer, new Prng(rules.seed), this.pieces.length);
+        }
+        this.scoring = createScoringSystem(rules.scoring);
+        if (this.pieces.some((states) => states.some((matrix) => matrix.length > rules.width || matrix.length > rules.height))) {
+            throw "The board is too small for the pieces";
+        }
+
+        this.field = rules.puzzle ? puzzleField(rules.puzzle, rules.width, rules.height) : new Array2D(rules.width, rules.height, 0);
+        this.currentPieceIdx = null;
+        this.currentPos = new Vec2();
+        this.holdPieceIdx = rules.puzzle && rules.puzzle.hold ? PUZZLE_PIECES.indexOf(rules.puzzle.hold) : null;
+        this.holdUsed = false;
+        this.gameOver = false;
+        this.finished = false;
+        this.level = 1;
+        this.score = 0;
+        this.lines = 0;
+        this.accumulator = 0;
+        this.frame_ = 0;
+        this.placed_ = 0;
+        this.gravity = 0;
+        this.softDropping_ = false;
+        this.lockTimer = 0;
+        this.lockResets = 0;
+        this.lowestRow = 0;
+        this.lastKick = -1;
+        this.lastKicks = 0;
+        this.clearingRows = [];
+        this.clearTimer = 0;
+        this.bufferedInputs = [];
+        this.pendingGarbage = [];
+        this.garbagePrng = new Prng(rules.seed ^ 0x5BD1E995);
+        this.snapshot = null;
+        this.onEvent = null;
+
+        this.nextPieceIdxs = [];
+        this.dealNext();
+        this.fall();
+    }
+
+    get rules(): GameRules {
+        return this.rules_;
+    }
+
+    get mode(): GameMode {
+        return this.mode_;
+    }
+
+    // ms played so far.
+    get time(): number {
+        return this.frame_ * GameEngine.FRAME_TIME;
+    }
+
+    // Pieces locked so far.
+    get placed(): number {
+        return this.placed_;
+    }
+
+    get softDropping(): boolean {
+        return this.softDropping_;
+    }
+
+    // Number of fixed steps done so far, inputs applied between two steps are
+    // reproduced exactly if they are applied at the same frame again.
+    get frame(): number {
+        return this.frame_;
+    }
+
+    // Rotation states of all pieces, see RotationSystem.
+    get pieces(): number[][][][] {
+        return this.rotationSystem.pieces;
+    }
+
+    // Cell image of every piece, see RotationSystem.
+    get sprites(): number[] {
+        return this.rotationSystem.sprites;
+    }
+
+    // Returns a copy of the current state, changing it has no effect on the engine.
+    get state(): GameState {
+        if (!this.snapshot) {
+            this.snapshot = {
+                field: this.field.clone(),
+                piece: this.currentPieceIdx == null ? null : {
+                    index: this.currentPieceIdx,
+                    rotation: this.currentRotIdx,
+                    position: new Vec2(this.currentPos.x, this.currentPos.y),
+                },
+                ghostPosition: this.currentPieceIdx == null ? null : this.landingPosition(),
+                nextPieces: this.nextPieceIdxs.slice(0),
+                holdPiece: this.holdPieceIdx,
+                canHold: !this.holdUsed,
+                score: this.score,
+                lines: this.lines,
+                level: this.level,
+                gameOver: this.gameOver,
+                finished: this.finished,
+                clearingRows: this.clearingRows.slice(0),
+                clearProgress: this.clearingRows.length > 0 ? this.clearTimer / this.rules_.lineClearDelay : 0,
+                pendingGarbage: this.pendingGarbage.reduce((sum, rows) => sum + rows, 0),
+            };
+        }
+        return this.snapshot;
+    }
+
+    // Advances the game by dt milliseconds.
+    tick(dt: number): void {
+        this.accumulator += dt;
+        while (this.accumulator >= GameEngine.FRAME_TIME) {
+            this.accumulator -= GameEngine.FRAME_TIME;
+            this.step();
+        }
+    }
+
+    applyInput(action: GameAction): void {
+        // Soft dropping is a held key, it has to be tracked even without a piece.
+        if (action == GameAction.SoftDropStart) {
+            this.softDropping_ = true;
+            return;
+        } else if (action == GameAction.SoftDropEnd) {
+            this.softDropping_ = false;
+            return;
+        }
+
+        if (this.gameOver) {
+            return;
+        } else if (!this.currentPiece) {
+            this.bufferedInputs.push(action);
+            return;
+        }
+
+        switch (action) {
+            case GameAction.MoveLeft:
+                this.shift(-1);
+                break;
+            case GameAction.MoveRight:
+                this.shift(1);
+                break;
+            case GameAction.RotateCW:
+                this.rotatePiece(1);
+                break;
+            case GameAction.RotateCCW:
+                this.rotatePiece(3);
+                break;
+            case GameAction.Rotate180:
+                this.rotatePiece(2);
+                break;
+            case GameAction.HardDrop:
+                this.drop();
+                break;
+            case GameAction.Hold:
+                this.hold();
+                break;
+        }
+    }
+
+    // Whether the current piece can move dx columns, false while there is none.
+    canShift(dx: number): boolean {
+        return this.currentPieceIdx != null && !this.gameOver &&
+            !this.collisionTest(this.currentPiece, new Vec2(this.currentPos.x + dx, this.currentPos.y));
+    }
+
+    // Queues garbage rows sent by the opponent.
+    receiveGarbage(rows: number): void {
+        if (rows > 0 && !this.gameOver) {
+            this.pendingGarbage.push(rows);
+            this.changed();
+        }
+    }
+
+    static defaultRules(): GameRules {
+        return {
+            randomizer: "bag",
+            seed: Prng.randomSeed(),
+            rotation: "srs",
+            pieceSet: null,
+            width: 12,
+            height: 21,
+            lockDelay: 500,
+            lockResets: 15,
+            scoring: "guideline",
+            lineClearDelay: 400,
+            mode: "endless",
+            puzzle: null,
+        };
+    }
+
+    // Where a new piece appears: centered at the top of the field.
+    static spawnPosition(field: Array2D<number>, piece: number[][]): Vec2 {
+        var size = piece.length;
+        return new Vec2(Math.floor((field.width - size) / 2), field.height - size);
+    }
+
+    static gravityInterval(level: number): number {
+        return 1000 * Math.pow(3 / 4, level - 1);
+    }
+
+    static levelMinScore(level: number): number {
+        // Have a jump every this.level * 1200 points,
+        // that means, the points for each level l are
+        //     SUM (1200 * n) for n in 1..(l-1)
+        // and this happens to be
+        //     600 * l * (l - 1)
+        // Thanks Wolfram!
+        return 600 * level * (level - 1);
+    }
+
+    private changed(): void {
+        this.snapshot = null;
+    }
+
+    private emit(event: GameEvent): void {
+        if (this.onEvent) {
+            this.changed();  // handlers may look at the state
+            this.onEvent(event);
+        }
+    }
+
+    private step(): void {
+        if (this.gameOver) {
+            return;
+        }
+        ++this.frame_;
+        if (this.mode_.timeLimit > 0 && this.time >= this.mode_.timeLimit) {
+            this.finish();
+            return;
+        }
+
+        if (this.clearingRows.length > 0) {
+            // Nothing falls while the line clear is shown.
+            this.clearTimer += GameEngine.FRAME_TIME;
+            if (this.clearTimer >= this.rules_.lineClearDelay) {
+                this.removeRows(this.clearingRows);
+                this.clearingRows = [];
+                this.spawnNext();
+                this.gravity = 0;
+                this.changed();
+            }
+            return;
+        }
+
+        var interval = GameEngine.gravityInterval(this.level);
+        if (this.softDropping_) {
+            interval /= GameEngine.SOFT_DROP_FACTOR;
+        }
+        this.gravity += GameEngine.FRAME_TIME / interval;
+        while (this.gravity >= 1 && !this.gameOver && this.clearingRows.length == 0) {
+            this.gravity -= 1;
+            this.fall();
+        }
+
+        if (this.currentPieceIdx != null && this.rules_.lockDelay > 0) {
+            if (this.collisionTest(this.currentPiece, new Vec2(this.currentPos.x, this.currentPos.y - 1))) {
+                this.lockTimer += GameEngine.FRAME_TIME;
+                if (this.lockTimer >= this.rules_.lockDelay) {
+                    this.lockPiece();
+                    if (this.clearingRows.length == 0 && !this.gameOver) {
+                        this.spawnNext();
+                    }
+                    this.gravity = 0;
+                }
+            } else {
+                this.lockTimer = 0;
+            }
+        }
+    }
+
+    private collisionTest(piece: number[][], pos: Vec2): boolean {
+        return GameEngine.collides(this.field, piece, pos);
+    }
+
+    // Does the piece matrix at pos overlap a filled cell or leave the field?
+    static collides(field: Array2D<number>, piece: number[][], pos: Vec2): boolean {
+        for (var y = 0; y < piece.length; ++y) {
+            for (var x = 0; x < piece[y].length; ++x) {
+                if (piece[y][x] == 1) {
+                    var theX = pos.x + x;
+                    var theY = pos.y + y;
+                    if (theX < 0 || theX >= field.width ||
+                        theY < 0 || theY >= field.height ||
+                        field.get(theX, theY) != 0) {
+                        return true;
+                    }
+                }
+            }
+        }
+        return false;
+    }
+
+    private landingPosition(): Vec2 {
+        var pos = new Vec2(this.currentPos.x, this.currentPos.y);
+        while (!this.collisionTest(this.currentPiece, new Vec2(pos.x, pos.y - 1))) {
+            --pos.y;
+        }
+        return pos;
+    }
+
+    private shift(dx: number): void {
+        var nextPos = new Vec2(this.currentPos.x + dx, this.currentPos.y);
+        if (!this.collisionTest(this.currentPiece, nextPos)) {
+            this.currentPos = nextPos;
+            this.lastKick = -1;
+            this.resetLockDelay();
+            this.changed();
+            this.emit({ type: GameEventType.Move });
+        }
+    }
+
+    // Called after a successful move or rotation of a resting piece.
+    private resetLockDelay(): void {
+        if (this.lockTimer > 0 && this.lockResets < this.rules_.lockResets) {
+            this.lockTimer = 0;
+            ++this.lockResets;
+        }
+    }
+
+    // Rotates clockwise by the given number of quarter turns, trying the kicks
+    // of the rotation system in order.
+    private rotatePiece(turns: number): void {
+        var states = this.pieces[this.currentPieceIdx];
+        var nextRotIdx = (this.currentRotIdx + turns) % states.length;
+        var kicks = this.rotationSystem.kicks(this.currentPieceIdx, this.currentRotIdx, nextRotIdx);
+        for (var i = 0; i < kicks.length; ++i) {
+            var nextPos = new Vec2(this.currentPos.x + kicks[i].x, this.currentPos.y + kicks[i].y);
+            if (!this.collisionTest(states[nextRotIdx], nextPos)) {
+                this.currentRotIdx = nextRotIdx;
+                this.currentPos = nextPos;
+                this.lastKick = i;
+                this.lastKicks = kicks.length;
+                this.resetLockDelay();
+                this.changed();
+                this.emit({ type: GameEventType.Rotate });
+                return;
+            }
+        }
+    }
+
+    private drop(): void {
+        // Lock at the landing position and spawn the next piece right away.
+        var landing = this.landingPosition();
+        var rows = this.currentPos.y - landing.y;
+        if (rows > 0) {
+            this.lastKick = -1;
+        }
+        this.score += this.scoring.hardDrop(rows);
+        this.currentPos = landing;
+        this.emit({ type: GameEventType.HardDrop, cells: this.pieceCells(), piece: this.currentPieceIdx });
+        this.lockPiece();
+        if (this.clearingRows.length == 0 && !this.gameOver) {  // a goal reached by the piece ends the game
+            this.spawnNext();
+        }
+        this.gravity = 0;
+    }
+
+    // Swaps the current piece with the held one, at most once per piece.
+    private hold(): void {
+        if (this.holdUsed || (this.holdPieceIdx == null && this.nextPieceIdxs.length == 0)) {
+            // Nothing to swap in once the pieces of a puzzle run out.
+            return;
+        }
+
+        var held = this.holdPieceIdx;
+        this.holdPieceIdx = this.currentPieceIdx;
+        if (held == null) {
+            this.spawnPiece(this.nextPieceIdxs.shift());
+            this.dealNext();
+        } else {
+            this.spawnPiece(held);
+        }
+        this.holdUsed = true;
+        this.gravity = 0;
+        this.changed();
+    }
+
+    // Field cells covered by the current piece.
+    private pieceCells(): Vec2[] {
+        var cells: Vec2[] = [];
+        for (var y = 0; y < this.currentPiece.length; ++y) {
+            for (var x = 0; x < this.currentPiece[y].length; ++x) {
+                if (this.currentPiece[y][x] == 1) {
+                    cells.push(new Vec2(this.currentPos.x + x, this.currentPos.y + y));
+                }
+            }
+        }
+        return cells;
+    }
+
+    // Fills the next queue up to NEXT_PIECES, as far as the randomizer has pieces.
+    private dealNext(): void {
+        while (this.nextPieceIdxs.length < GameEngine.NEXT_PIECES) {
+            var index = this.randomizer.next();
+            if (index == null)
+                return;
+            this.nextPieceIdxs.push(index);
+        }
+    }
+
+    private spawnNext(): void {
+        if (this.nextPieceIdxs.length == 0) {
+            // The pieces of the puzzle are used up without reaching its goal.
+            this.gameOver = true;
+            this.changed();
+            this.emit({ type: GameEventType.GameOver });
+            return;
+        }
+        this.spawnPiece(this.nextPieceIdxs.shift());
+        this.dealNext();
+        this.changed();
+
+        var inputs = this.bufferedInputs;
+        this.bufferedInputs = [];
+        inputs.forEach((action) => this.applyInput(action));
+    }
+
+    private spawnPiece(index: number): void {
+        this.currentPieceIdx = index;
+        this.currentRotIdx = 0;
+        this.currentPos = GameEngine.spawnPosition(this.field, this.currentPiece);
+        this.lockTimer = 0;
+        this.lockResets = 0;
+        this.lowestRow = this.currentPos.y;
+        this.lastKick = -1;
+
+        // Game Over?
+        if (this.collisionTest(this.currentPiece, this.currentPos) && !this.gameOver) {
+            this.gameOver = true;
+            this.emit({ type: GameEventType.GameOver });
+        }
+    }
+
+    private updateScore(tSpin: TSpin): void {
+        var fullRows: number[] = [];
+        for (var y = 0; y < this.field.height; ++y) {
+            var currentRowFull = true;
+            for (var x = 0; x < this.field.width; ++x) {
+                if (this.field.get(x, y) == 0) {
+                    currentRowFull = false;
+                    break;
+                }
+            }
+            if (currentRowFull) {
+                fullRows.push(y);
+            }
+        }
+
+        // Cells outside of the full rows decide about a perfect clear.
+        var perfectClear = fullRows.length > 0;
+        for (var y = 0; y < this.field.height && perfectClear; ++y) {
+            for (var x = 0; x < this.field.width && fullRows.indexOf(y) == -1; ++x) {
+                perfectClear = perfectClear && this.field.get(x, y) == 0;
+            }
+        }
+
+        this.emit({ type: GameEventType.Lock, rows: fullRows.slice(0) });
+        if (fullRows.length > 0) {
+            this.lines += fullRows.length;
+            this.emit({ type: GameEventType.LineClear, rows: fullRows.slice(0) });
+            if (this.rules_.lineClearDelay > 0) {
+                // The rows are removed by step() once the delay has passed.
+                this.clearingRows = fullRows;
+                this.clearTimer = 0;
+            } else {
+                this.removeRows(fullRows);
+            }
+        }
+
+        var awards = this.scoring.lock({
+            lines: fullRows.length,
+            tSpin: tSpin,
+            perfectClear: perfectClear,
+            level: this.level,
+        });
+        awards.forEach((award) => {
+            this.score += award.points;
+            if (award.label) {
+                this.emit({ type: GameEventType.Award, label: award.label, points: award.points });
+            }
+        });
+
+        if (fullRows.length > 0) {
+            var attack = tSpin == TSpin.Full ? 2 * fullRows.length :
+                GameEngine.ATTACK[Math.min(fullRows.length, GameEngine.ATTACK.length - 1)];
+            // Cancels the own garbage first, the rest goes to the opponent.
+            while (attack > 0 && this.pendingGarbage.length > 0) {
+                var cancelled = Math.min(attack, this.pendingGarbage[0]);
+                attack -= cancelled;
+                this.pendingGarbage[0] -= cancelled;
+                if (this.pendingGarbage[0] == 0) {
+                    this.pendingGarbage.shift();
+                }
+            }
+            if (attack > 0) {
+                this.emit({ type: GameEventType.Attack, lines: attack });
+            }
+        } else {
+            this.insertGarbage();
+        }
+
+        var level = this.level;
+        switch (this.mode_.leveling) {
+            case "score":
+                while (this.score >= GameEngine.levelMinScore(this.level + 1))
+                    ++this.level;
+                break;
+            case "lines":
+                this.level = 1 + Math.floor(this.lines / LINES_PER_LEVEL);
+                break;
+        }
+        if (this.mode_.maxLevel > 0) {
+            this.level = Math.min(this.level, this.mode_.maxLevel);
+        }
+        if (this.level > level) {
+            this.emit({ type: GameEventType.LevelUp, level: this.level });
+        }
+
+        if (this.mode_.goalLines > 0 && this.lines >= this.mode_.goalLines) {
+            this.finish();
+        }
+        var puzzle = this.rules_.puzzle;
+        if (puzzle && puzzleGoalReached(puzzle.goal, fullRows.length, tSpin, perfectClear, this.lines)) {
+            this.finish();
+        }
+    }
+
+    // Ends the game without topping out.
+    private finish(): void {
+        if (this.gameOver)
+            return;
+        this.gameOver = true;
+        this.finished = true;
+        this.changed();
+        this.emit({ type: GameEventType.Finish });
+    }
+
+    // Pushes the stack up by the pending garbage, every attack has its own hole.
+    private insertGarbage(): void {
+        var toppedOut = false;
+        var lines = 0;
+        this.pendingGarbage.forEach((rows) => {
+            lines += rows;
+            var hole = this.garbagePrng.nextInt(this.field.width);
+            for (var y = this.field.height - 1; y >= 0; --y) {
+                for (var x = 0; x < this.field.width; ++x) {
+                    var value = 0;
+                    if (y >= rows) {
+                        value = this.field.get(x, y - rows);
+                    } else if (x != hole) {
+                        value = GameEngine.GARBAGE;
+                    }
+                    // Pushed out at the top?
+                    toppedOut = toppedOut || (y + rows >= this.field.height && this.field.get(x, y) != 0);
+                    this.field.set(x, y, value);
+                }
+            }
+        });
+        this.pendingGarbage = [];
+        if (lines > 0) {
+            this.emit({ type: GameEventType.Garbage, lines: lines });
+        }
+        if (toppedOut && !this.gameOver) {
+            this.gameOver = true;
+            this.emit({ type: GameEventType.GameOver });
+        }
+    }
+
+    private removeRows(fullRows: number[]): void {
+        // Note that deleting rows is sorted ascending!
+        var i = 0;
+        fullRows.forEach((deletingRow) => {
+            for (var y = deletingRow - i; y < this.field.height; ++y) {
+                for (var x = 0; x < this.field.width; ++x) {
+                    if (y + 1 >= this.field.height) {
+                        this.field.set(x, y, 0);
+                    } else {
+                        this.field.set(x, y, this.field.get(x, y + 1));
+                    }
+                }
+            }
+
+            ++i;
+        });
+    }
+
+    private lockPiece(): void {
+        var tSpin = this.detectTSpin();
+        for (var y = 0; y < this.currentPiece.length; ++y) {
+            for (var x = 0; x < this.currentPiece[y].length; ++x) {
+                if (this.currentPiece[y][x] == 1) {
+                    this.field.set(this.currentPos.x + x, this.currentPos.y + y, this.currentPieceIdx + 1);
+                }
+            }
+        }
+        this.currentPieceIdx = null;
+        this.holdUsed = false;
+        ++this.placed_;
+
+        this.updateScore(tSpin);
+        this.changed();
+    }
+
+    // 3-corner rule: a T that was rotated into place with three of the corners
+    // around its center blocked. It is a mini T-spin unless both corners it
+    // points at are blocked or the rotation took the last kick of its table.
+    private detectTSpin(): TSpin {
+        if (this.currentPieceIdx != this.rotationSystem.tPiece || this.lastKick < 0) {
+            return TSpin.None;
+        }
+
+        // Clockwise from the upper left, the T in rotation r points at corners r and r + 1.
+        var corners = [[0, 2], [2, 2], [2, 0], [0, 0]];
+        var blocked = corners.map((corner) => {
+            var x = this.currentPos.x + corner[0];
+            var y = this.currentPos.y + corner[1];
+            return x < 0 || x >= this.field.width || y < 0 || y >= this.field.height || this.field.get(x, y) != 0;
+        });
+
+        var count = blocked.filter((b) => b).length;
+        if (count < 3) {
+            return TSpin.None;
+        }
+
+        if ((blocked[this.currentRotIdx] && blocked[(this.currentRotIdx + 1) % 4]) || this.lastKick == this.lastKicks - 1) {
+            return TSpin.Full;
+        }
+        return TSpin.Mini;
+    }
+
+    // One gravity step: spawns a piece if there is none, moves it down or locks it.
+    private fall(): void {
+        if (this.currentPieceIdx == null) {
+
+            // During a line clear step() spawns the next piece once the rows are gone.
+            if (this.clearingRows.length == 0) {
+                this.spawnNext();
+            }
+
+        } else {
+
+            var nextPos = new Vec2(this.currentPos.x, this.currentPos.y - 1);
+            if (this.collisionTest(this.currentPiece, nextPos)) {
+                // In case of a collision stop and realize the piece,
+                // unless the lock delay in step() takes care of that.
+                if (this.rules_.lockDelay == 0) {
+                    this.lockPiece();
+                }
+            } else {
+                // Otherwise move it down.
+                this.currentPos = nextPos;
+                this.lastKick = -1;
+                if (this.softDropping_) {
+                    this.score += this.scoring.softDrop(1);
+                }
+                if (this.currentPos.y < this.lowestRow) {
+                    this.lowestRow = this.currentPos.y;
+                    this.lockResets = 0;
+                }
+            }
+
+        }
+
+        this.changed();
+    }
+}
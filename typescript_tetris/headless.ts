@@ -0,0 +1,25 @@
+﻿/// <reference path="ai.ts" />
+/// <reference path="engine.ts" />
+/// <reference path="replay.ts" />
+
+// Entry point for running the engine without a browser. Compile it on its own
+// (tsc --out headless.js headless.ts) and require() the result from Node.
+// test.ts checks the rules of the engine the same way.
+
+declare var module: any;
+
+if (typeof module !== "undefined" && module.exports) {
+    module.exports = {
+        Vec2: Vec2,
+        Array2D: Array2D,
+        GameAction: GameAction,
+        GameEngine: GameEngine,
+        Prng: Prng,
+        ReplayRecorder: ReplayRecorder,
+        ReplayPlayer: ReplayPlayer,
+        createRandomizer: createRandomizer,
+        parsePieceSet: parsePieceSet,
+        Bot: Bot,
+        playBot: playBot,
+    };
+}
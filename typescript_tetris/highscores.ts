@@ -0,0 +1,212 @@
+﻿/// <reference path="engine.ts" />
+
+// Local high score table, kept in localStorage and ranked per mode.
+
+interface HighScore {
+    name: string;
+    mode: string;  // the table it is ranked in, see scoreMode
+    score: number;
+    level: number;
+    lines: number;
+    time: number;  // ms the game lasted
+    date: string;  // ISO 8601, when the game ended
+}
+
+// Key of the table a game with these rules is ranked in, starting with the name
+// of the game mode (GameRules.mode) rather than its title, so that renaming a
+// mode on the screen keeps its scores. Games on other boards, with other pieces
+// or other scoring do not compare.
+function scoreMode(rules: GameRules): string {
+    var defaults = GameEngine.defaultRules();
+    var mode = findGameMode(rules.mode).name;
+    if (rules.pieceSet) {
+        mode += " " + rules.pieceSet.name;
+    }
+    if (rules.width != defaults.width || rules.height != defaults.height) {
+        mode += " " + rules.width + "x" + rules.height;
+    }
+    if (rules.scoring != defaults.scoring) {
+        mode += " " + rules.scoring;
+    }
+    return mode;
+}
+
+class HighScoreTable {
+    static STORAGE_KEY = "tetris-highscores";
+    static VERSION = 1;
+    static PER_MODE = 10;
+
+    private scores: HighScore[];
+
+    // Without storage (e.g. if the browser blocks it) the table only lasts as long as the page.
+    constructor(private storage: Storage) {
+        this.scores = [];
+        if (storage) {
+            try {
+                var json = storage.getItem(HighScoreTable.STORAGE_KEY);
+                if (json) {
+                    this.scores = HighScoreTable.fromJson(json);
+                }
+            } catch (e) {
+                console.log("Could not read the high scores: " + e);
+            }
+        }
+    }
+
+    get all(): HighScore[] {
+        return this.scores.slice(0);
+    }
+
+    // Whether the table ranks the fastest time first instead of the highest score.
+    static byTime(mode: string): boolean {
+        return GAME_MODES.some((m) => m.rankByTime && mode.split(" ")[0] == m.name);
+    }
+
+    // The table of one mode, best first. Of equal scores the older one ranks higher.
+    ranking(mode: string): HighScore[] {
+        var byTime = HighScoreTable.byTime(mode);
+        return this.scores.filter((s) => s.mode == mode).sort((a, b) => {
+            if (byTime && a.time != b.time)
+                return a.time - b.time;
+            if (!byTime && a.score != b.score)
+                return b.score - a.score;
+            return a.date < b.date ? -1 : (a.date > b.date ? 1 : 0);
+        });
+    }
+
+    // Rank (0 is the best) a new score would get, -1 if it does not make it into the table.
+    rank(score: HighScore): number {
+        var byTime = HighScoreTable.byTime(score.mode);
+        if (byTime ? score.time <= 0 : score.score <= 0)
+            return -1;
+        var rank = this.ranking(score.mode).filter((s) => byTime ? s.time <= score.time : s.score >= score.score).length;
+        return rank < HighScoreTable.PER_MODE ? rank : -1;
+    }
+
+    // Adds the score and returns its rank, or -1 if it was not good enough.
+    add(score: HighScore): number {
+        var rank = this.rank(score);
+        if (rank != -1) {
+            this.scores.push(score);
+            this.trim();
+            this.save();
+        }
+        return rank;
+    }
+
+    // Adds the scores of another table, e.g. from another machine. Returns how many were new.
+    merge(scores: HighScore[]): number {
+        var known = this.scores.map((s) => JSON.stringify(s));
+        var added = 0;
+        scores.forEach((s) => {
+            var key = JSON.stringify(s);
+            if (known.indexOf(key) == -1) {
+                known.push(key);
+                this.scores.push(s);
+                ++added;
+            }
+        });
+        this.trim();
+        this.save();
+        return added;
+    }
+
+    // Keeps the best PER_MODE scores of every mode.
+    private trim(): void {
+        var modes: string[] = [];
+        this.scores.forEach((s) => {
+            if (modes.indexOf(s.mode) == -1) {
+                modes.push(s.mode);
+            }
+        });
+        var kept: HighScore[] = [];
+        modes.forEach((mode) => {
+            kept = kept.concat(this.ranking(mode).slice(0, HighScoreTable.PER_MODE));
+        });
+        this.scores = kept;
+    }
+
+    private save(): void {
+        if (!this.storage)
+            return;
+        try {
+            this.storage.setItem(HighScoreTable.STORAGE_KEY, HighScoreTable.toJson(this.scores));
+        } catch (e) {
+            console.log("Could not save the high scores: " + e);
+        }
+    }
+
+    static toJson(scores: HighScore[]): string {
+        return JSON.stringify({ version: HighScoreTable.VERSION, scores: scores });
+    }
+
+    static fromJson(json: string): HighScore[] {
+        var data = JSON.parse(json);
+        if (!data || data.version != HighScoreTable.VERSION || !data.scores) {
+            throw "Not a high score table of this version";
+        }
+        var scores: HighScore[] = data.scores;
+        scores.forEach((s) => {
+            if (typeof s.name != "string" || typeof s.mode != "string" || typeof s.score != "number" ||
+                typeof s.level != "number" || typeof s.lines != "number" || typeof s.time != "number" ||
+                typeof s.date != "string") {
+                throw "Invalid high score entry";
+            }
+        });
+        return scores;
+    }
+}
+
+// Arcade style name entry: up and down change the character under the cursor,
+// left and right move the cursor. Typing works too.
+class NameEntry {
+    static LENGTH = 8;
+    static CHARACTERS = " ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789.-";
+
+    private chars: string[];
+    cursor: number;
+
+    constructor(name: string = "") {
+        this.chars = [];
+        for (var i = 0; i < NameEntry.LENGTH; ++i) {
+            var c = name.charAt(i).toUpperCase();
+            this.chars.push(c && NameEntry.CHARACTERS.indexOf(c) != -1 ? c : " ");
+        }
+        this.cursor = Math.min(name.length, NameEntry.LENGTH - 1);
+    }
+
+    get name(): string {
+        return this.chars.join("").replace(/\s+$/, "");
+    }
+
+    // The name with the character under the cursor replaced by an underscore when blink is set.
+    text(blink: boolean): string {
+        return this.chars.map((c, i) => blink && i == this.cursor ? "_" : c).join("");
+    }
+
+    // Steps through CHARACTERS, 1 forwards or -1 backwards.
+    cycle(direction: number): void {
+        var count = NameEntry.CHARACTERS.length;
+        var index = NameEntry.CHARACTERS.indexOf(this.chars[this.cursor]);
+        this.chars[this.cursor] = NameEntry.CHARACTERS.charAt((index + direction + count) % count);
+    }
+
+    move(direction: number): void {
+        this.cursor = Math.max(0, Math.min(NameEntry.LENGTH - 1, this.cursor + direction));
+    }
+
+    type(c: string): void {
+        c = c.toUpperCase();
+        if (NameEntry.CHARACTERS.indexOf(c) == -1)
+            return;
+        this.chars[this.cursor] = c;
+        this.move(1);
+    }
+
+    backspace(): void {
+        if (this.chars[this.cursor] == " ") {
+            this.move(-1);
+        }
+        this.chars[this.cursor] = " ";
+    }
+}
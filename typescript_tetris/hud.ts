@@ -0,0 +1,41 @@
+﻿// The side panel right of the field as data. Every item is placed in cells from
+// the left edge of the panel and from its top or bottom edge (anchor), the Game
+// lays them out for the board size and fills in the values and pieces.
+
+interface HudItem {
+    type: string;  // see HUD_LAYOUT
+    anchor?: string;  // "top" (default) or "bottom", the edge y is measured from
+    x: number;
+    y: number;  // cells from the anchor to the lower left corner, for a queue to its top edge
+    width?: number;  // of a box, a piece is centered in it if given
+    height?: number;  // of a box
+    text?: string;  // of a label
+    value?: string;  // shown by a value, see Game.HUD_LABELS
+    scale?: number;  // of pieces, relative to the size that fits the largest piece into the next box
+    step?: number;  // cells between the values of the mode or the pieces of a queue
+}
+
+// The item types are:
+//
+//   box       background behind other items, width by height
+//   label     a fixed text
+//   value     the value of the game named by value, e.g. "lines" or "pps"
+//   mode      label and value of every value of GameMode.hud, one every step cells down
+//   next      the next piece
+//   queue     the pieces after the next one in a box of width, each step cells high,
+//             shown when the next queue has more than one piece
+//   hold      the held piece
+//   gameover  "GAME OVER" on two lines once the stack topped out
+//   seed      the seed of the game
+//   debug     the debug text, in the small font
+var HUD_LAYOUT: HudItem[] = [
+    { type: "box", x: 0, y: 7, width: 4, height: 6 },
+    { type: "next", x: 0, y: 6, scale: 1 },
+    { type: "box", x: 4.25, y: 7, width: 3.5, height: 6 },
+    { type: "hold", x: 4.25, y: 6, width: 3.5, scale: 3 / 4 },
+    { type: "queue", x: 9.25, y: 1, width: 2.5, step: 2.5, scale: 1 / 2 },  // right of the longest texts
+    { type: "mode", x: 0, y: 9, step: 3 },
+    { type: "gameover", anchor: "bottom", x: 0, y: 4 },
+    { type: "seed", anchor: "bottom", x: 0, y: 1 },
+    { type: "debug", anchor: "bottom", x: 0, y: 0.2 },
+];
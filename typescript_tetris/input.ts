@@ -0,0 +1,99 @@
+﻿/// <reference path="engine.ts" />
+
+// Held-key handling that does not depend on the key repeat of the OS.
+
+// Delayed auto shift: a held direction moves once right away, then again after
+// `das` ms and from there on every `arr` ms. An `arr` of 0 moves to the wall.
+// If both directions are held, the one pressed last wins. Repeated moves are only
+// made if canShift says the piece can go there, so moves against a wall are not
+// recorded or sent.
+class AutoShift {
+    private static MAX_INSTANT_SHIFTS = 64;  // more than any board is wide
+
+    private leftHeld: boolean;
+    private rightHeld: boolean;
+    private direction: number;  // -1 left, 1 right, 0 none
+    private heldTime: number;  // ms since the direction was pressed
+    private shifts: number;  // auto shifts done since the direction was pressed
+
+    constructor(public das: number, public arr: number, private shift: (action: GameAction) => void,
+        private canShift: (action: GameAction) => boolean) {
+        this.leftHeld = false;
+        this.rightHeld = false;
+        this.direction = 0;
+        this.heldTime = 0;
+        this.shifts = 0;
+    }
+
+    press(direction: number): void {
+        if (direction < 0) {
+            this.leftHeld = true;
+        } else {
+            this.rightHeld = true;
+        }
+        this.start(direction);
+        this.shift(this.action);
+    }
+
+    release(direction: number): void {
+        if (direction < 0) {
+            this.leftHeld = false;
+        } else {
+            this.rightHeld = false;
+        }
+
+        if (this.direction == direction) {
+            // Fall back to the other direction if it is still held.
+            if (this.leftHeld) {
+                this.start(-1);
+            } else if (this.rightHeld) {
+                this.start(1);
+            } else {
+                this.start(0);
+            }
+        }
+    }
+
+    releaseAll(): void {
+        this.leftHeld = false;
+        this.rightHeld = false;
+        this.start(0);
+    }
+
+    update(dt: number): void {
+        if (this.direction == 0) {
+            return;
+        }
+
+        this.heldTime += dt;
+        if (this.heldTime < this.das) {
+            return;
+        }
+
+        if (this.arr <= 0) {
+            // To the wall, and again as soon as a new piece or a rotation leaves room.
+            for (var i = 0; i < AutoShift.MAX_INSTANT_SHIFTS && this.canShift(this.action); ++i) {
+                this.shift(this.action);
+            }
+            return;
+        }
+
+        var due = 1 + Math.floor((this.heldTime - this.das) / this.arr);
+        while (this.shifts < due) {
+            ++this.shifts;
+            if (this.canShift(this.action)) {
+                this.shift(this.action);
+            }
+        }
+    }
+
+    private get action(): GameAction {
+        return this.direction < 0 ? GameAction.MoveLeft : GameAction.MoveRight;
+    }
+
+    private start(direction: number): void {
+        this.direction = direction;
+        this.heldTime = 0;
+        this.shifts = 0;
+    }
+}
@@ -0,0 +1,69 @@
+﻿// Main loop on requestAnimationFrame: the logic runs in fixed steps that
+// catch up with the wall clock, rendering happens once per display frame.
+class MainLoop {
+    private static MAX_ELAPSED = 250;  // ms, longer gaps (e.g. a suspended tab) are not caught up
+    private static STATS_INTERVAL = 500;  // ms between updates of fps and frameTime
+
+    fps: number;  // rendered frames per second
+    frameTime: number;  // average ms spent in update and render per frame
+
+    private running: boolean;
+    private lastTime: number;
+    private accumulator: number;  // ms not yet covered by a step
+    private statsTime: number;  // ms since the stats were updated
+    private statsFrames: number;
+    private statsBusy: number;  // ms spent in update and render since the stats were updated
+
+    // update is called with step as dt.
+    constructor(private step: number, private update: (dt: number) => void, private render: () => void) {
+        this.fps = 0;
+        this.frameTime = 0;
+        this.running = false;
+    }
+
+    start(): void {
+        if (this.running)
+            return;
+        this.running = true;
+        this.lastTime = null;
+        this.accumulator = 0;
+        this.statsTime = 0;
+        this.statsFrames = 0;
+        this.statsBusy = 0;
+        requestAnimationFrame((time) => this.frame(time));
+    }
+
+    stop(): void {
+        this.running = false;
+    }
+
+    private frame(time: number): void {
+        if (!this.running)
+            return;
+        requestAnimationFrame((time) => this.frame(time));
+
+        var elapsed = this.lastTime == null ? 0 : Math.min(time - this.lastTime, MainLoop.MAX_ELAPSED);
+        this.lastTime = time;
+
+        var start = performance.now();
+        this.accumulator += elapsed;
+        while (this.accumulator >= this.step) {
+            this.update(this.step);
+            this.accumulator -= this.step;
+        }
+        if (!document.hidden) {
+            this.render();
+            ++this.statsFrames;
+        }
+        this.statsBusy += performance.now() - start;
+
+        this.statsTime += elapsed;
+        if (this.statsTime >= MainLoop.STATS_INTERVAL) {
+            this.fps = this.statsFrames * 1000 / this.statsTime;
+            this.frameTime = this.statsFrames > 0 ? this.statsBusy / this.statsFrames : 0;
+            this.statsTime = 0;
+            this.statsFrames = 0;
+            this.statsBusy = 0;
+        }
+    }
+}
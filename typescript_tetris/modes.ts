@@ -0,0 +1,81 @@
+﻿// Game modes: what a game is played for and when it ends. The engine applies
+// the goal, time limit and leveling of the mode, the Game shows its HUD values.
+
+interface GameMode {
+    name: string;  // as in GameRules.mode and ?mode
+    title: string;  // shown in the game, also starts the name of its high score tables
+    leveling: string;  // "score" (GameEngine.levelMinScore), "lines" (one level per LINES_PER_LEVEL lines) or "none"
+    maxLevel: number;  // 0 for no cap
+    goalLines: number;  // the game is finished once this many lines are cleared, 0 for no goal
+    timeLimit: number;  // ms, the game is finished once they are played, 0 for no limit
+    rankByTime: boolean;  // high scores are the fastest finished games instead of the highest scores
+    finishText: string;  // shown when the game was finished instead of topped out
+    hud: string[];  // values in the side panel, see Game.HUD_LABELS
+}
+
+var LINES_PER_LEVEL = 10;
+
+var GAME_MODES: GameMode[] = [
+    {
+        name: "endless",
+        title: "ENDLESS",
+        leveling: "score",
+        maxLevel: 0,
+        goalLines: 0,
+        timeLimit: 0,
+        rankByTime: false,
+        finishText: null,
+        hud: ["score", "level", "next"],
+    },
+    {
+        name: "marathon",
+        title: "MARATHON",
+        leveling: "lines",
+        maxLevel: 15,
+        goalLines: 150,
+        timeLimit: 0,
+        rankByTime: false,
+        finishText: "COMPLETE",
+        hud: ["score", "level", "lines"],
+    },
+    {
+        name: "sprint",
+        title: "SPRINT",
+        leveling: "none",
+        maxLevel: 0,
+        goalLines: 40,
+        timeLimit: 0,
+        rankByTime: true,
+        finishText: "COMPLETE",
+        hud: ["time", "lines", "pps"],
+    },
+    {
+        name: "ultra",
+        title: "ULTRA",
+        leveling: "none",
+        maxLevel: 0,
+        goalLines: 0,
+        timeLimit: 120000,
+        rankByTime: false,
+        finishText: "TIME UP",
+        hud: ["left", "score", "lines"],
+    },
+    {
+        name: "puzzle",  // needs GameRules.puzzle, which has the goal
+        title: "PUZZLE",
+        leveling: "none",
+        maxLevel: 0,
+        goalLines: 0,
+        timeLimit: 0,
+        rankByTime: false,
+        finishText: "SOLVED",
+        hud: ["goal", "lines"],
+    },
+];
+
+function findGameMode(name: string): GameMode {
+    var found = GAME_MODES.filter((mode) => mode.name == name);
+    if (found.length == 0)
+        throw "Unknown mode " + name;
+    return found[0];
+}
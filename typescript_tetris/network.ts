@@ -0,0 +1,289 @@
+﻿/// <reference path="app.ts" />
+/// <reference path="protocol.ts" />
+
+// Versus over the network: the own game next to the board of an opponent on
+// another machine, through the server in server.ts. The own game never waits
+// for the network. It sends its board whenever it changed, the opponent's board
+// is only shown, and garbage comes in whenever it arrives.
+
+// A WebSocket that connects again after it was lost, waiting longer each time.
+class NetClient {
+    static RETRY_MIN = 1000;  // ms
+    static RETRY_MAX = 30000;
+
+    onOpen: () => void;
+    onMessage: (message: Message) => void;
+    onClose: () => void;
+
+    private socket: WebSocket;
+    private retry: number;
+
+    constructor(private url: string) {
+        this.onOpen = null;
+        this.onMessage = null;
+        this.onClose = null;
+        this.retry = NetClient.RETRY_MIN;
+        this.connect();
+    }
+
+    get connected(): boolean {
+        return this.socket && this.socket.readyState == WebSocket.OPEN;
+    }
+
+    // Messages while there is no connection are dropped, the game goes on without them.
+    send(message: Message): void {
+        if (this.connected) {
+            this.socket.send(JSON.stringify(message));
+        }
+    }
+
+    private connect(): void {
+        this.socket = new WebSocket(this.url);
+        this.socket.onopen = () => {
+            this.retry = NetClient.RETRY_MIN;
+            if (this.onOpen) {
+                this.onOpen();
+            }
+        };
+        this.socket.onmessage = (ev) => {
+            var message: Message;
+            try {
+                message = JSON.parse(ev.data);
+            } catch (e) {
+                console.log("Invalid message from the server: " + e);
+                return;
+            }
+            if (this.onMessage) {
+                this.onMessage(message);
+            }
+        };
+        this.socket.onclose = () => {
+            if (this.onClose) {
+                this.onClose();
+            }
+            setTimeout(() => this.connect(), this.retry);
+            this.retry = Math.min(this.retry * 2, NetClient.RETRY_MAX);
+        };
+    }
+}
+
+class NetworkMatch {
+    static BOARD_INTERVAL = 50;  // ms between two boards sent, at most
+    static APM_WINDOW = 10000;  // ms of opponent inputs the actions per minute are counted over
+
+    local: Game;
+    remote: Game;  // only shows the board of the opponent
+    private client: NetClient;
+    private sentState: GameState;  // the board sent last
+    private boardTime: number;  // ms since a board was sent
+    private opponent: string;  // name, null if there is none
+    private playing: boolean;  // a match is running
+    private opponentInputs: number[];  // ms timestamps, for the actions per minute
+    private view: Viewport;
+
+    constructor(private renderer: Renderer, private rules: GameRules, controls: Controls, audio: AudioSystem,
+        url: string, private room: string, private name: string) {
+        this.local = new Game(renderer, rules, null, controls, audio, true);
+        this.local.ranked = false;
+        this.local.pausable = false;  // the opponent would not pause
+        this.remote = new Game(renderer, rules, null, new Controls(null), audio, true);
+        this.remote.ranked = false;
+        this.remote.background = false;
+        this.remote.showState(this.local.state);
+        this.sentState = null;
+        this.boardTime = 0;
+        this.opponent = null;
+        this.playing = false;
+        this.opponentInputs = [];
+        this.view = null;
+
+        this.local.onAttack = (rows) => {
+            if (this.playing) {
+                this.client.send({ type: "attack", rows: rows });
+            }
+        };
+        this.local.onInput = (frame, action) => {
+            if (this.playing) {
+                this.client.send({ type: "input", frame: frame, action: action });
+            }
+        };
+        this.client = new NetClient(url);
+        this.client.onOpen = () => this.client.send({ type: "join", room: this.room, name: this.name });
+        this.client.onMessage = this.handleMessage.bind(this);
+        this.client.onClose = () => {
+            this.playing = false;
+            this.opponent = null;
+            this.local.showResult(["CONNECTION", "LOST", "", "RETRYING"]);
+            this.remote.showResult(["OFFLINE"]);
+        };
+        this.local.showResult(["CONNECTING"]);
+        this.remote.showResult(["OFFLINE"]);
+    }
+
+    private handleMessage(message: Message): void {
+        switch (message.type) {
+            case "rooms":
+                this.showRooms(message.rooms);
+                break;
+            case "joined":
+                this.opponent = null;
+                message.players.forEach((player) => {
+                    if (player != this.name) {
+                        this.opponent = player;
+                    }
+                });
+                this.waitForMatch();
+                break;
+            case "start":
+                this.playing = true;
+                this.sentState = null;
+                this.opponentInputs = [];
+                this.local.restart(message.seed);
+                this.remote.restart(message.seed);
+                this.remote.showState(this.local.state);  // the same empty field the opponent starts with
+                this.remote.showResult([]);
+                break;
+            case "board":
+                try {
+                    this.remote.showState(boardFromMessage(message.board, this.rules, this.local.pieces));
+                } catch (e) {
+                    console.log("Invalid board from " + message.name + ": " + e);
+                }
+                break;
+            case "input":
+                this.opponentInputs.push(Date.now());
+                break;
+            case "attack":
+                if (this.playing && message.rows > 0) {
+                    this.local.receiveGarbage(Math.min(message.rows, this.rules.height));
+                }
+                break;
+            case "result":
+                this.playing = false;
+                var result = message.winner == null ? "DRAW" : (message.winner == this.name ? "YOU WIN" : "YOU LOSE");
+                this.local.showResult([result, "", "ENTER TO", "PLAY AGAIN"]);
+                break;
+            case "left":
+                if (message.name == this.opponent) {
+                    var aborted = this.playing;
+                    this.opponent = null;
+                    this.waitForMatch();
+                    if (aborted) {
+                        this.local.showResult(["OPPONENT", "LEFT", "", "WAITING FOR", "AN OPPONENT"]);
+                    }
+                }
+                break;
+            case "error":
+                alert("Server: " + message.message);
+                break;
+        }
+    }
+
+    // The lobby below the game, every room links to the page in that room.
+    private showRooms(rooms: RoomInfo[]): void {
+        var list = document.getElementById("rooms");
+        if (!list)
+            return;
+        list.innerHTML = "";
+        rooms.forEach((room) => {
+            var link = document.createElement("a");
+            link.href = "?" + replaceQuery(location.search, "room", room.name);
+            link.textContent = room.name;
+            var item = document.createElement("li");
+            item.appendChild(link);
+            item.appendChild(document.createTextNode(" " + (room.players.length > 0 ? room.players.join(", ") : "(empty)")));
+            list.appendChild(item);
+        });
+        document.getElementById("lobby").style.display = "";
+    }
+
+    // Until both players are ready.
+    private waitForMatch(): void {
+        this.playing = false;
+        this.local.showResult(this.opponent ? ["ENTER WHEN", "READY"] : ["WAITING FOR", "AN OPPONENT", "", "ROOM", this.room.toUpperCase()]);
+        this.remote.showResult(this.opponent ? [this.opponent.toUpperCase()] : ["EMPTY"]);
+        this.remote.setDebugText(null);
+    }
+
+    update(dt: number): void {
+        this.local.update(dt);
+        if (!this.playing)
+            return;
+
+        this.boardTime += dt;
+        var state = this.local.state;
+        if (state != this.sentState && this.boardTime >= NetworkMatch.BOARD_INTERVAL) {
+            this.client.send({ type: "board", board: boardToMessage(state) });
+            this.sentState = state;
+            this.boardTime = 0;
+            var result = this.local.matchResult;
+            if (result) {
+                // The server decides the match, in some modes only once both games are done.
+                this.client.send(result.finished ?
+                    { type: "finished", mode: this.rules.mode, score: result.score, time: result.time } :
+                    { type: "lost" });
+            }
+        }
+
+        var now = Date.now();
+        this.opponentInputs = this.opponentInputs.filter((time) => now - time < NetworkMatch.APM_WINDOW);
+        var apm = Math.round(this.opponentInputs.length * 60000 / NetworkMatch.APM_WINDOW);
+        this.remote.setDebugText(this.opponent.toUpperCase() + " " + apm + " APM");
+    }
+
+    render(): void {
+        var view = this.renderer.viewport;
+        if (view != this.view) {
+            // Side by side like the local versus, the own game on the left.
+            var size = Math.min((view.right - view.left) / 2, view.top - view.bottom);
+            this.local.setArea(new Vec2(0.5 - size, 0.5 - size / 2), size);
+            this.remote.setArea(new Vec2(0.5, 0.5 - size / 2), size);
+            this.view = view;
+        }
+        this.local.draw();
+        this.remote.draw();
+        this.renderer.flush();
+    }
+
+    handleKeypress(ev: KeyboardEvent): void {
+        var code = keyCode(ev);
+        if (Game.KEY_RESTART.indexOf(code) != -1) {
+            // The server starts the matches, a game cannot be restarted alone.
+            if (!this.playing && this.opponent && this.client.connected) {
+                this.client.send({ type: "ready" });
+                this.local.showResult(["WAITING FOR", this.opponent.toUpperCase()]);
+            }
+            ev.preventDefault();
+            return;
+        }
+        this.local.handleKeypress(ev);
+    }
+}
+
+// "?a=1&b=2" without the "?" and with one parameter set to the value.
+function replaceQuery(query: string, key: string, value: string): string {
+    var parts = query.replace(/^\?/, "").split("&").filter((part) => part != "" && part.split("=")[0] != key);
+    parts.push(key + "=" + encodeURIComponent(value));
+    return parts.join("&");
+}
+
+// Plays against someone else on the server, see ?server in index.html.
+function startNetwork(canvas: HTMLCanvasElement, renderer: Renderer, query: { [key: string]: string }, rules: GameRules,
+    storage: Storage, audio: AudioSystem): void {
+    var name = (query["name"] || "PLAYER" + Math.floor(Math.random() * 1000)).substr(0, 16);
+    var match = new NetworkMatch(renderer, rules, new Controls(storage), audio, query["server"], query["room"] || "lobby", name);
+    match.local.nextQueue = nextQueueFromQuery(query);
+    match.remote.nextQueue = match.local.nextQueue;
+    window.onkeydown = match.handleKeypress.bind(match);
+    window.onkeyup = match.local.handleKeyup.bind(match.local);
+    window.onblur = match.local.handleBlur.bind(match.local);
+    document.getElementById("fullscreen").onclick = () => toggleFullscreen(document.getElementById("game"));
+
+    var loop = new MainLoop(GameEngine.FRAME_TIME, (dt) => match.update(dt), () => {
+        if (fitCanvas(canvas)) {
+            renderer.resize(canvas.width, canvas.height);
+        }
+        match.render();
+    });
+    loop.start();
+}
@@ -0,0 +1,81 @@
+﻿// Piece sets replace the pieces of the rotation system, e.g. with pentominoes.
+// They are plain JSON, so a replay can keep the set in its rules:
+//
+// { "name": "pentomino", "kicks": [[0, 0], [-1, 0], [1, 0]], "pieces": [
+//     { "name": "X", "sprite": 3, "rotations": [[".#.", "###", ".#."]] }, ...
+// ] }
+//
+// A rotation state is a square matrix given as rows from top to bottom, "#"
+// is a block. A piece with a single state gets the other three by rotating it
+// clockwise. The sprite selects the cell image block<sprite + 1>. kicks are the
+// offsets (x to the right, y up) tried in order when a rotation collides, the
+// default is no kicks.
+
+interface PieceDefinition {
+    name: string;
+    sprite: number;
+    rotations: string[][];
+}
+
+interface PieceSet {
+    name: string;
+    pieces: PieceDefinition[];
+    kicks?: number[][];
+}
+
+// Parses and checks a piece set, throws a message if it is not valid.
+function parsePieceSet(json: string): PieceSet {
+    var set: PieceSet = JSON.parse(json);
+    if (!set || !set.pieces || set.pieces.length == 0) {
+        throw "A piece set needs pieces";
+    }
+    set.pieces.forEach((piece, i) => {
+        var name = piece.name || "" + i;
+        if (!(piece.sprite >= 0) || Math.floor(piece.sprite) != piece.sprite) {
+            throw "Piece " + name + " has no valid sprite";
+        }
+        if (!piece.rotations || piece.rotations.length == 0) {
+            throw "Piece " + name + " has no rotation states";
+        }
+        piece.rotations.forEach((rows) => {
+            if (rows.length == 0 || rows.some((row) => row.length != rows.length)) {
+                throw "Rotation states of piece " + name + " must be square";
+            }
+            if (rows.every((row) => row.indexOf("#") == -1)) {
+                throw "Rotation state of piece " + name + " is empty";
+            }
+        });
+    });
+    if (set.kicks && set.kicks.some((kick) => kick.length != 2)) {
+        throw "Kicks must be [x, y] pairs";
+    }
+    return set;
+}
+
+// Rotation states of the piece as matrices, bottom row first.
+function pieceMatrices(piece: PieceDefinition): number[][][] {
+    var states = piece.rotations.map((rows) => rows.map((row) => {
+        var cells: number[] = [];
+        for (var i = 0; i < row.length; ++i) {
+            cells.push(row.charAt(i) == "#" ? 1 : 0);
+        }
+        return cells;
+    }).reverse());
+    if (states.length == 1) {
+        for (var i = 1; i < 4; ++i) {
+            states.push(rotateClockwise(states[i - 1]));
+        }
+    }
+    return states;
+}
+
+function rotateClockwise(matrix: number[][]): number[][] {
+    var size = matrix.length;
+    var result = matrix.map((row) => row.map(() => 0));
+    for (var y = 0; y < size; ++y) {
+        for (var x = 0; x < size; ++x) {
+            result[size - 1 - x][y] = matrix[y][x];
+        }
+    }
+    return result;
+}
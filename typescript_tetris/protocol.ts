@@ -0,0 +1,163 @@
+﻿/// <reference path="engine.ts" />
+
+// Messages between the game and the versus server (server.ts), sent as JSON
+// text over a WebSocket. Every message has a type, the other fields depend on it:
+//
+// Client to server:
+//   join    room, name     enter a room, leaving the one before; the room list is sent on connect
+//   ready                  ready for the next match, it starts once both players are
+//   board   board          the own board after it changed, for the opponent to see
+//   input   frame, action  an input of the own game, for the opponent to see
+//   attack  rows           garbage for the opponent
+//   lost                   the own game topped out
+//   finished mode, score, time  the own game reached the goal or time limit of the mode
+//
+// Server to client:
+//   rooms    rooms         the lobby: every room with its players
+//   joined   room, players the room was joined, players are the names in it
+//   start    seed          a match starts, both players use this seed
+//   board, input, attack   relayed from the opponent, with name
+//   result   winner        the match is over, winner is a name or null for none
+//   left     name          the opponent left the room or lost the connection
+//   error    message
+
+interface Message {
+    type: string;
+    room?: string;
+    name?: string;
+    rooms?: RoomInfo[];
+    players?: string[];
+    seed?: number;
+    board?: BoardMessage;
+    frame?: number;
+    action?: GameAction;
+    rows?: number;
+    winner?: string;
+    mode?: string;
+    score?: number;
+    time?: number;  // ms
+    message?: string;
+}
+
+interface RoomInfo {
+    name: string;
+    players: string[];
+}
+
+// GameState as plain data.
+interface BoardMessage {
+    width: number;
+    height: number;
+    cells: number[];  // row by row from the bottom
+    piece: ActivePiece;
+    ghostY: number;
+    nextPieces: number[];
+    holdPiece: number;
+    score: number;
+    lines: number;
+    level: number;
+    gameOver: boolean;
+    finished: boolean;
+    clearingRows: number[];
+    pendingGarbage: number;
+}
+
+function boardToMessage(state: GameState): BoardMessage {
+    var cells: number[] = [];
+    for (var y = 0; y < state.field.height; ++y) {
+        for (var x = 0; x < state.field.width; ++x) {
+            cells.push(state.field.get(x, y));
+        }
+    }
+    return {
+        width: state.field.width,
+        height: state.field.height,
+        cells: cells,
+        piece: state.piece,
+        ghostY: state.ghostPosition ? state.ghostPosition.y : null,
+        nextPieces: state.nextPieces,
+        holdPiece: state.holdPiece,
+        score: state.score,
+        lines: state.lines,
+        level: state.level,
+        gameOver: state.gameOver,
+        finished: state.finished,
+        clearingRows: state.clearingRows,
+        pendingGarbage: state.pendingGarbage,
+    };
+}
+
+// How the game of a player in a match ended, null while it runs.
+interface MatchResult {
+    finished: boolean;  // reached the goal of the mode, topped out otherwise
+    score: number;
+    time: number;  // ms
+}
+
+// Decides a match of two by the results of the players: the index of the winner,
+// -1 for a draw or null while it is open. Topping out loses. In a mode ranked by
+// time the first to finish wins, in the others the higher score once both are done.
+function matchWinner(results: MatchResult[], byTime: boolean): number {
+    var lost = results.map((result) => result != null && !result.finished);
+    if (lost[0] || lost[1]) {
+        return lost[0] && lost[1] ? -1 : (lost[0] ? 1 : 0);
+    }
+    if (results[0] == null && results[1] == null) {
+        return null;
+    }
+    if (results[0] == null || results[1] == null) {
+        return byTime ? (results[0] ? 0 : 1) : null;
+    }
+    var a = byTime ? results[1].time : results[0].score;
+    var b = byTime ? results[0].time : results[1].score;
+    return a == b ? -1 : (a > b ? 0 : 1);
+}
+
+function isInteger(value: number): boolean {
+    return typeof value == "number" && isFinite(value) && Math.floor(value) == value;
+}
+
+// Throws a message if the board does not fit the own game, which has these
+// rules and pieces, as it could not be shown then.
+function boardFromMessage(board: BoardMessage, rules: GameRules, pieces: number[][][][]): GameState {
+    if (board.width != rules.width || board.height != rules.height || board.cells.length != board.width * board.height)
+        throw "The board does not match the rules";
+    var validPiece = (index: number) => index == null || (isInteger(index) && index >= 0 && index < pieces.length);
+    if (!board.cells.every((value) => value == GameEngine.GARBAGE || (isInteger(value) && value >= 0 && value <= pieces.length)) ||
+        !board.nextPieces || !board.nextPieces.every(validPiece) || !validPiece(board.holdPiece) ||
+        (board.piece && !(board.piece.index != null && validPiece(board.piece.index) && isInteger(board.piece.rotation) &&
+        pieces[board.piece.index][board.piece.rotation])))
+        throw "The board has other pieces";
+    var validRow = (y: number) => isInteger(y) && y >= 0 && y < board.height;
+    if (!board.clearingRows || !board.clearingRows.every(validRow) ||
+        (board.piece && !(board.piece.position && isInteger(board.piece.position.x) && isInteger(board.piece.position.y) &&
+        isInteger(board.ghostY))))
+        throw "The board has rows or positions that are not valid";
+
+    var field = new Array2D<number>(board.width, board.height, 0);
+    board.cells.forEach((value, i) => field.set(i % board.width, Math.floor(i / board.width), value));
+    var piece: ActivePiece = null;
+    if (board.piece) {
+        piece = {
+            index: board.piece.index,
+            rotation: board.piece.rotation,
+            position: new Vec2(board.piece.position.x, board.piece.position.y),
+        };
+    }
+    return {
+        field: field,
+        piece: piece,
+        ghostPosition: piece ? new Vec2(piece.position.x, board.ghostY) : null,
+        nextPieces: board.nextPieces.slice(0, GameEngine.NEXT_PIECES),
+        holdPiece: board.holdPiece,
+        canHold: true,
+        score: board.score,
+        lines: board.lines,
+        level: board.level,
+        gameOver: board.gameOver,
+        finished: board.finished,
+        clearingRows: board.clearingRows,
+        clearProgress: 0,
+        pendingGarbage: board.pendingGarbage,
+    };
+}
@@ -0,0 +1,211 @@
+﻿/// <reference path="engine.ts" />
+
+// Puzzles start from a prepared field with a fixed list of pieces and are
+// solved by reaching a goal before the pieces run out. A pack is plain JSON:
+//
+// { "name": "basics", "puzzles": [
+//     { "name": "TETRIS", "goal": { "type": "clear", "lines": 4 }, "pieces": "I",
+//       "field": ["#########.", "#########.", "#########.", "#########."] }, ...
+// ] }
+//
+// The field is given as rows from top to bottom and sits at the bottom of the
+// board, which is as wide as the rows and height (default 20) rows high. "."
+// is empty, "#" garbage and a piece letter a cell of that piece. pieces are
+// the letters of the pieces in the order they come, hold optionally the letter
+// of a piece that is held at the start. Goals are:
+//
+//   lines   lines   clear this many lines in total
+//   clear   lines   clear this many lines at once
+//   tspin   lines   clear this many lines with a T-spin (not a mini)
+//   perfect         clear the field completely
+
+interface PuzzleGoal {
+    type: string;
+    lines?: number;
+}
+
+interface Puzzle {
+    name: string;
+    field: string[];
+    height?: number;
+    pieces: string;
+    hold?: string;
+    goal: PuzzleGoal;
+}
+
+interface PuzzlePack {
+    name: string;
+    puzzles: Puzzle[];
+}
+
+// Letters of the standard pieces, in the order of the rotation systems.
+var PUZZLE_PIECES = "OZSTILJ";
+var PUZZLE_HEIGHT = 20;
+
+// Parses and checks a puzzle pack, throws a message if it is not valid.
+function parsePuzzlePack(json: string): PuzzlePack {
+    var pack: PuzzlePack = JSON.parse(json);
+    if (!pack || typeof pack.name != "string" || !pack.puzzles || pack.puzzles.length == 0) {
+        throw "A puzzle pack needs a name and puzzles";
+    }
+    pack.puzzles.forEach((puzzle, i) => checkPuzzle(puzzle, puzzle.name || "" + (i + 1)));
+    return pack;
+}
+
+// Throws a message if the puzzle is not valid, name is shown in it.
+function checkPuzzle(puzzle: Puzzle, name: string): void {
+    if (!puzzle.field || puzzle.field.length == 0 || puzzle.field.some((row) => row.length != puzzle.field[0].length)) {
+        throw "The rows of puzzle " + name + " must have the same length";
+    }
+    var height = puzzle.height || PUZZLE_HEIGHT;
+    if (puzzle.field[0].length < 4 || puzzle.field.length > height - 4) {
+        throw "The field of puzzle " + name + " leaves no room for the pieces";
+    }
+    if (puzzle.field.some((row) => !/^[.#OZSTILJ]*$/.test(row))) {
+        throw "The field of puzzle " + name + " may only have the characters .#" + PUZZLE_PIECES;
+    }
+    if (!puzzle.pieces || !/^[OZSTILJ]+$/.test(puzzle.pieces) || (puzzle.hold && !/^[OZSTILJ]$/.test(puzzle.hold))) {
+        throw "Puzzle " + name + " needs pieces, as letters of " + PUZZLE_PIECES;
+    }
+    var goal = puzzle.goal;
+    if (!goal || ["lines", "clear", "tspin", "perfect"].indexOf(goal.type) == -1 ||
+        (goal.type != "perfect" && !(goal.lines >= 1 && goal.lines <= (goal.type == "lines" ? height : 4)))) {
+        throw "Puzzle " + name + " has no valid goal";
+    }
+}
+
+// The starting field of the puzzle on a board of the given size.
+function puzzleField(puzzle: Puzzle, width: number, height: number): Array2D<number> {
+    var field = new Array2D<number>(width, height, 0);
+    puzzle.field.forEach((row, i) => {
+        var y = puzzle.field.length - 1 - i;
+        for (var x = 0; x < row.length; ++x) {
+            var c = row.charAt(x);
+            field.set(x, y, c == "." ? 0 : (c == "#" ? GameEngine.GARBAGE : PUZZLE_PIECES.indexOf(c) + 1));
+        }
+    });
+    return field;
+}
+
+// The rows of the field from the highest one that is not empty down, in the
+// format of puzzles. Cells of other piece sets become garbage.
+function fieldRows(field: Array2D<number>): string[] {
+    var rows: string[] = [];
+    for (var y = 0; y < field.height; ++y) {
+        var row = "";
+        for (var x = 0; x < field.width; ++x) {
+            var value = field.get(x, y);
+            row += value == 0 ? "." : (value > 0 && value <= PUZZLE_PIECES.length ? PUZZLE_PIECES.charAt(value - 1) : "#");
+        }
+        rows.unshift(row);
+    }
+    while (rows.length > 1 && /^\.*$/.test(rows[0])) {
+        rows.shift();
+    }
+    return rows;
+}
+
+// A puzzle that starts where the game is, to be finished by editing the goal
+// and pieces of the file. Throws a message if the game is over or the board
+// would not load as a puzzle again.
+function puzzleFromState(state: GameState, name: string): Puzzle {
+    if (state.gameOver) {
+        throw "The game is over";
+    }
+    var letter = (index: number) => index != null && index < PUZZLE_PIECES.length ? PUZZLE_PIECES.charAt(index) : "";
+    var puzzle: Puzzle = {
+        name: name,
+        field: fieldRows(state.field),
+        height: state.field.height,
+        pieces: (state.piece ? letter(state.piece.index) : "") + state.nextPieces.map(letter).join(""),
+        hold: letter(state.holdPiece) || undefined,
+        goal: { type: "lines", lines: 4 },
+    };
+    checkPuzzle(puzzle, name);
+    return puzzle;
+}
+
+// Whether a lock reached the goal, lines is the total after it.
+function puzzleGoalReached(goal: PuzzleGoal, cleared: number, tSpin: TSpin, perfectClear: boolean, lines: number): boolean {
+    switch (goal.type) {
+        case "lines":
+            return lines >= goal.lines;
+        case "clear":
+            return cleared >= goal.lines;
+        case "tspin":
+            return tSpin == TSpin.Full && cleared == goal.lines;
+        case "perfect":
+            return perfectClear;
+        default:
+            throw "Unknown puzzle goal " + goal.type;
+    }
+}
+
+// Short text of the goal, fits the side panel.
+function puzzleGoalText(goal: PuzzleGoal): string {
+    switch (goal.type) {
+        case "lines":
+            return goal.lines + " LINES";
+        case "clear":
+            return "CLEAR " + goal.lines;
+        case "tspin":
+            return "T-SPIN " + goal.lines;
+        case "perfect":
+            return "PERFECT";
+        default:
+            throw "Unknown puzzle goal " + goal.type;
+    }
+}
+
+// Which puzzles were solved, kept in localStorage by pack and puzzle name.
+class PuzzleProgress {
+    static STORAGE_KEY = "tetris-puzzles";
+    static VERSION = 1;
+
+    private solvedKeys: string[];
+
+    constructor(private storage: Storage) {
+        this.solvedKeys = [];
+        if (storage) {
+            try {
+                var json = storage.getItem(PuzzleProgress.STORAGE_KEY);
+                if (json) {
+                    var data = JSON.parse(json);
+                    if (data && data.version == PuzzleProgress.VERSION && data.solved) {
+                        this.solvedKeys = data.solved;
+                    }
+                }
+            } catch (e) {
+                console.log("Could not read the puzzle progress: " + e);
+            }
+        }
+    }
+
+    solved(pack: PuzzlePack, index: number): boolean {
+        return this.solvedKeys.indexOf(PuzzleProgress.key(pack, index)) != -1;
+    }
+
+    solve(pack: PuzzlePack, index: number): void {
+        if (this.solved(pack, index))
+            return;
+        this.solvedKeys.push(PuzzleProgress.key(pack, index));
+        this.save();
+    }
+
+    private static key(pack: PuzzlePack, index: number): string {
+        return pack.name + "/" + pack.puzzles[index].name;
+    }
+
+    private save(): void {
+        if (!this.storage)
+            return;
+        try {
+            this.storage.setItem(PuzzleProgress.STORAGE_KEY, JSON.stringify({
+                version: PuzzleProgress.VERSION,
+                solved: this.solvedKeys,
+            }));
+        } catch (e) {
+            console.log("Could not save the puzzle progress: " + e);
+        }
+    }
+}
@@ -0,0 +1,119 @@
+﻿// Piece randomizers. All of them draw from a seeded Prng so that a game can
+// be replayed exactly from its seed.
+
+// xorshift32, good enough for shuffling pieces and fully determined by the seed.
+class Prng {
+    private x: number;
+
+    constructor(public seed: number) {
+        this.x = (seed >>> 0) || 0x9E3779B9;  // xorshift must not start at zero
+    }
+
+    // Returns a number in [0; 1).
+    next(): number {
+        var x = this.x;
+        x ^= x << 13;
+        x ^= x >>> 17;
+        x ^= x << 5;
+        this.x = x >>> 0;
+        return this.x / 0x100000000;
+    }
+
+    nextInt(max: number): number {
+        return Math.floor(this.next() * max);
+    }
+
+    static randomSeed(): number {
+        return Math.floor(Math.random() * 0x100000000);
+    }
+}
+
+interface Randomizer {
+    next(): number;  // index of the next piece, null if there are no more
+}
+
+// Every piece is equally likely every time, this allows long droughts.
+class UniformRandomizer implements Randomizer {
+    constructor(private prng: Prng, private count: number) {
+    }
+
+    next(): number {
+        return this.prng.nextInt(this.count);
+    }
+}
+
+// Deals all pieces in a shuffled bag before starting a new one.
+class BagRandomizer implements Randomizer {
+    private bag: number[];
+
+    constructor(private prng: Prng, private count: number) {
+        this.bag = [];
+    }
+
+    next(): number {
+        if (this.bag.length == 0) {
+            for (var i = 0; i < this.count; ++i) {
+                this.bag.push(i);
+            }
+            // Fisher-Yates
+            for (var i = this.bag.length - 1; i > 0; --i) {
+                var j = this.prng.nextInt(i + 1);
+                var tmp = this.bag[i];
+                this.bag[i] = this.bag[j];
+                this.bag[j] = tmp;
+            }
+        }
+        return this.bag.pop();
+    }
+}
+
+// TGM style: rerolls a few times if the piece was dealt recently.
+class HistoryRandomizer implements Randomizer {
+    private history: number[];
+
+    constructor(private prng: Prng, private count: number, historySize: number = 4, private rolls: number = 6) {
+        this.history = [];
+        for (var i = 0; i < historySize; ++i) {
+            this.history.push(-1);
+        }
+    }
+
+    next(): number {
+        var piece: number;
+        for (var i = 0; i < this.rolls; ++i) {
+            piece = this.prng.nextInt(this.count);
+            if (this.history.indexOf(piece) == -1) {
+                break;
+            }
+        }
+        this.history.shift();
+        this.history.push(piece);
+        return piece;
+    }
+}
+
+// Deals the given pieces in order and then no more, for puzzles.
+class SequenceRandomizer implements Randomizer {
+    private index: number;
+
+    constructor(private pieces: number[]) {
+        this.index = 0;
+    }
+
+    next(): number {
+        return this.index < this.pieces.length ? this.pieces[this.index++] : null;
+    }
+}
+
+function createRandomizer(kind: string, prng: Prng, count: number): Randomizer {
+    switch (kind) {
+        case "bag":
+            return new BagRandomizer(prng, count);
+        case "uniform":
+            return new UniformRandomizer(prng, count);
+        case "history":
+            return new HistoryRandomizer(prng, count);
+        default:
+            throw "Unknown randomizer " + kind;
+    }
+}
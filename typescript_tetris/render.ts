@@ -0,0 +1,210 @@
+﻿/// <reference path="util.ts" />
+
+// Renderer independent sprites and text. A frame is drawn by passing
+// sprites to Renderer.render and calling Renderer.flush at the end.
+
+class SpriteImage {
+    static all: SpriteImage[] = [];
+    private static count = 0;
+
+    id: number;  // index into all
+    image: HTMLImageElement;
+    loaded: boolean;
+    failed: boolean;
+
+    constructor(path: string) {
+        this.id = SpriteImage.count++;
+        this.loaded = false;
+        this.failed = false;
+
+        this.image = new Image();
+        this.image.onload = () => {
+            this.loaded = true;
+        }
+        this.image.onerror = () => {
+            console.log("Could not load " + path);
+            this.failed = true;
+        }
+        this.image.src = path + ".png";
+        SpriteImage.all.push(this);
+    }
+
+    // Have all images finished loading, successfully or not?
+    static settled(): boolean {
+        return SpriteImage.all.every((i) => i.loaded || i.failed);
+    }
+}
+
+class Sprite {
+    static DUMMY_IMAGE = new SpriteImage("dummy");
+
+    position: Vec3;  // absolute position [0; 1], higher z is drawn on top
+    size: Vec2;  // absolute size [0; 1]
+    visible: boolean;  // is visible?
+    image: SpriteImage;  // image to display
+    textureSize: Vec2;  // absolute size of one texture tile (null allowed)
+    textureOffset: Vec2;  // offset (in texture coordinates)
+    alpha: number;  // opacity [0; 1]
+
+    constructor() {
+        this.position = new Vec3();
+        this.size = new Vec2(1, 1);
+        this.visible = true;
+        this.image = Sprite.DUMMY_IMAGE;
+        this.textureSize = null;
+        this.textureOffset = new Vec2(0, 0);
+        this.alpha = 1;
+    }
+}
+
+// Part of the game area that is visible on a canvas of the given size in
+// pixels. The square [0; 1] x [0; 1] always fits and is centered, the longer
+// side of the canvas shows more around it.
+class Viewport {
+    scale: number;  // pixels per unit
+    left: number;
+    bottom: number;
+    right: number;
+    top: number;
+
+    constructor(public width: number, public height: number) {
+        this.scale = Math.max(1, Math.min(width, height));
+        var extraX = (width / this.scale - 1) / 2;
+        var extraY = (height / this.scale - 1) / 2;
+        this.left = -extraX;
+        this.right = 1 + extraX;
+        this.bottom = -extraY;
+        this.top = 1 + extraY;
+    }
+}
+
+interface Renderer {
+    viewport: Viewport;
+    // Sets the size of the canvas in pixels.
+    resize(width: number, height: number): void;
+    // Queues the sprite as it is now, it is drawn by the next flush.
+    render(sprite: Sprite): void;
+    // Draws the queued sprites back to front.
+    flush(): void;
+}
+
+// Copy of a sprite taken when it is queued. The texture coordinates are in
+// image units, so anything outside of [0; 1] repeats the image.
+interface QueuedSprite {
+    order: number;
+    z: number;
+    image: SpriteImage;
+    x0: number;  // left
+    y0: number;  // bottom
+    x1: number;
+    y1: number;
+    u0: number;  // left
+    v0: number;  // top
+    u1: number;
+    v1: number;
+    alpha: number;
+}
+
+// The sprites of one frame, in the order they are to be drawn.
+class SpriteQueue {
+    private queue: QueuedSprite[];
+    private queued: number;  // used entries of queue, the rest is kept for reuse
+
+    constructor() {
+        this.queue = [];
+        this.queued = 0;
+    }
+
+    push(sprite: Sprite): void {
+        if (!sprite.visible)
+            return;
+
+        if (this.queued == this.queue.length) {
+            this.queue.push({ order: 0, z: 0, image: null, x0: 0, y0: 0, x1: 0, y1: 0, u0: 0, v0: 0, u1: 0, v1: 0, alpha: 1 });
+        }
+        var entry = this.queue[this.queued];
+        entry.order = this.queued++;
+        entry.z = sprite.position.z;
+        entry.image = sprite.image;
+
+        var texX: number, texY: number;
+        if (sprite.textureSize) {
+            texX = sprite.textureSize.x;
+            texY = sprite.textureSize.y;
+        } else {
+            texX = sprite.size.x;
+            texY = sprite.size.y;
+        }
+        entry.x0 = sprite.position.x;
+        entry.y0 = sprite.position.y;
+        entry.x1 = entry.x0 + sprite.size.x;
+        entry.y1 = entry.y0 + sprite.size.y;
+        entry.u0 = sprite.textureOffset.x;
+        entry.v0 = sprite.textureOffset.y;
+        entry.u1 = entry.u0 + sprite.size.x / texX;
+        entry.v1 = entry.v0 + sprite.size.y / texY;
+        entry.alpha = sprite.alpha;
+    }
+
+    // Empties the queue and returns its sprites sorted by z, then by the texture
+    // key and then by the order they were pushed in.
+    take(texture: (image: SpriteImage) => number = (image) => 0): QueuedSprite[] {
+        var sprites = this.queue.slice(0, this.queued);
+        this.queued = 0;
+        sprites.sort((a, b) => {
+            if (a.z != b.z)
+                return a.z - b.z;
+            var textureA = texture(a.image);
+            var textureB = texture(b.image);
+            if (textureA != textureB)
+                return textureA - textureB;
+            return a.order - b.order;
+        });
+        return sprites;
+    }
+}
+
+class GameText {
+    constructor(
+        public text: string,
+        public position: Vec3,
+        public visible: boolean = true,
+        public alpha: number = 1) {
+    }
+}
+
+class TextRenderer {
+
+    private sprite: Sprite;
+    private charSizeTexture: Vec2;
+
+    constructor(private renderer: Renderer, font: SpriteImage, charSizeScreen: Vec2, charSizeTexture: Vec2) {
+        this.charSizeTexture = charSizeTexture;
+
+        this.sprite = new Sprite();
+        this.sprite.size = charSizeScreen;
+        this.sprite.image = font;
+        this.sprite.textureSize = new Vec2(
+            this.sprite.size.x / charSizeTexture.x,
+            this.sprite.size.y / charSizeTexture.y);
+    }
+
+    render(text: GameText): void {
+        if (!text.visible)
+            return;
+
+        this.sprite.position = new Vec3(text.position.x, text.position.y, text.position.z);
+        this.sprite.alpha = text.alpha;
+        for (var i = 0; i < text.text.length; ++i) {
+            var c = text.text.charCodeAt(i);
+
+            this.sprite.textureOffset = new Vec2(
+                this.charSizeTexture.x * (c % Math.round(1 / this.charSizeTexture.x)),
+                this.charSizeTexture.y * Math.floor(c / Math.round(1 / this.charSizeTexture.x)));
+            this.renderer.render(this.sprite);
+
+            this.sprite.position.x += this.sprite.size.x;
+        }
+    }
+
+}
@@ -0,0 +1,139 @@
+﻿/// <reference path="engine.ts" />
+
+// Replays are the rules (including the seed) and every input with the frame
+// it was applied at, garbage from an opponent included. Feeding the same inputs
+// at the same frames into a new engine reproduces the game exactly.
+
+interface Replay {
+    version: number;
+    rules: GameRules;
+    frames: number;  // length of the game
+    inputs: number[][];  // [frame, GameAction] or [frame, GARBAGE, rows] in the order they were applied
+}
+
+class ReplayRecorder {
+    static VERSION = 1;
+    static GARBAGE = -1;  // instead of a GameAction, garbage rows received
+
+    private inputs: number[][];
+
+    constructor(private engine: GameEngine) {
+        this.inputs = [];
+    }
+
+    // Applies the input to the engine and records it.
+    apply(action: GameAction): void {
+        this.inputs.push([this.engine.frame, action]);
+        this.engine.applyInput(action);
+    }
+
+    // Queues garbage from the opponent and records it between the inputs, the
+    // order decides which lock pushes it in.
+    receiveGarbage(rows: number): void {
+        this.inputs.push([this.engine.frame, ReplayRecorder.GARBAGE, rows]);
+        this.engine.receiveGarbage(rows);
+    }
+
+    get replay(): Replay {
+        return {
+            version: ReplayRecorder.VERSION,
+            rules: cloneData(this.engine.rules),
+            frames: this.engine.frame,
+            inputs: this.inputs.slice(0),
+        };
+    }
+
+    static toJson(replay: Replay): string {
+        return JSON.stringify(replay);
+    }
+
+    static fromJson(json: string): Replay {
+        var replay: Replay = JSON.parse(json);
+        if (!replay || replay.version != ReplayRecorder.VERSION || !replay.rules || !replay.inputs) {
+            throw "Not a replay of this version";
+        }
+        return replay;
+    }
+}
+
+// Plays a replay back on its own engine. Seeking backwards starts over, the
+// engine is fast enough to catch up to any frame right away.
+class ReplayPlayer {
+    static SPEEDS = [1, 2, 4, 8];
+
+    engine: GameEngine;
+    paused: boolean;
+    speed: number;
+
+    private nextInput: number;  // index into replay.inputs
+    private accumulator: number;
+
+    constructor(public replay: Replay) {
+        this.paused = false;
+        this.speed = 1;
+        this.seek(0);
+    }
+
+    get frame(): number {
+        return this.engine.frame;
+    }
+
+    get frames(): number {
+        return this.replay.frames;
+    }
+
+    get finished(): boolean {
+        return this.frame >= this.frames || this.engine.state.gameOver;
+    }
+
+    update(dt: number): void {
+        if (this.paused || this.finished) {
+            return;
+        }
+
+        this.accumulator += dt * this.speed;
+        var frames = Math.floor(this.accumulator / GameEngine.FRAME_TIME);
+        this.accumulator -= frames * GameEngine.FRAME_TIME;
+        this.runTo(Math.min(this.frame + frames, this.frames));
+    }
+
+    // Events of the skipped frames are not reported.
+    seek(frame: number): void {
+        var onEvent = this.engine ? this.engine.onEvent : null;
+        frame = Math.max(0, Math.min(frame, this.frames));
+        if (!this.engine || frame < this.frame) {
+            this.engine = new GameEngine(this.replay.rules);
+            this.nextInput = 0;
+        }
+        this.engine.onEvent = null;
+        this.accumulator = 0;
+        this.runTo(frame);
+        this.engine.onEvent = onEvent;
+    }
+
+    // Cycles through SPEEDS.
+    faster(): void {
+        var i = ReplayPlayer.SPEEDS.indexOf(this.speed);
+        this.speed = ReplayPlayer.SPEEDS[(i + 1) % ReplayPlayer.SPEEDS.length];
+    }
+
+    private runTo(frame: number): void {
+        var inputs = this.replay.inputs;
+        while (true) {
+            // Inputs are applied before the frame they were recorded at is stepped.
+            while (this.nextInput < inputs.length && inputs[this.nextInput][0] <= this.frame) {
+                var input = inputs[this.nextInput];
+                if (input[1] == ReplayRecorder.GARBAGE) {
+                    this.engine.receiveGarbage(input[2]);
+                } else {
+                    this.engine.applyInput(input[1]);
+                }
+                ++this.nextInput;
+            }
+            if (this.frame >= frame || this.engine.state.gameOver) {
+                break;
+            }
+            this.engine.tick(GameEngine.FRAME_TIME);
+        }
+    }
+}
@@ -0,0 +1,372 @@
+﻿/// <reference path="util.ts" />
+/// <reference path="pieces.ts" />
+
+// Rotation systems define the rotation states of every piece and where a
+// piece may be kicked to when the plain rotation collides.
+//
+// The standard pieces are in the order O, Z, S, T, I, L, J, the cell sprite of
+// a piece is block<index + 1>. Piece matrices are stored bottom row first.
+
+interface RotationSystem {
+    pieces: number[][][][];  // piece -> rotation state -> matrix
+    sprites: number[];  // piece -> cell image, block<sprite + 1>
+    kicks(piece: number, from: number, to: number): Vec2[];  // offsets to try in order, the first is usually (0, 0)
+    tPiece: number;  // index of the T piece in a 3x3 matrix for T-spin detection, -1 disables it
+}
+
+// Super Rotation System as in the guideline.
+class SrsRotation implements RotationSystem {
+    // States are spawn, R (clockwise), 2 and L (counter-clockwise).
+    static PIECES = [
+        [
+            [
+                [0, 1, 1],
+                [0, 1, 1],
+                [0, 0, 0],
+            ].reverse(), [
+                [0, 1, 1],
+                [0, 1, 1],
+                [0, 0, 0],
+            ].reverse(), [
+                [0, 1, 1],
+                [0, 1, 1],
+                [0, 0, 0],
+            ].reverse(), [
+                [0, 1, 1],
+                [0, 1, 1],
+                [0, 0, 0],
+            ].reverse(),
+        ], [
+            [
+                [1, 1, 0],
+                [0, 1, 1],
+                [0, 0, 0],
+            ].reverse(), [
+                [0, 0, 1],
+                [0, 1, 1],
+                [0, 1, 0],
+            ].reverse(), [
+                [0, 0, 0],
+                [1, 1, 0],
+                [0, 1, 1],
+            ].reverse(), [
+                [0, 1, 0],
+                [1, 1, 0],
+                [1, 0, 0],
+            ].reverse(),
+        ], [
+            [
+                [0, 1, 1],
+                [1, 1, 0],
+                [0, 0, 0],
+            ].reverse(), [
+                [0, 1, 0],
+                [0, 1, 1],
+                [0, 0, 1],
+            ].reverse(), [
+                [0, 0, 0],
+                [0, 1, 1],
+                [1, 1, 0],
+            ].reverse(), [
+                [1, 0, 0],
+                [1, 1, 0],
+                [0, 1, 0],
+            ].reverse(),
+        ], [
+            [
+                [0, 1, 0],
+                [1, 1, 1],
+                [0, 0, 0],
+            ].reverse(), [
+                [0, 1, 0],
+                [0, 1, 1],
+                [0, 1, 0],
+            ].reverse(), [
+                [0, 0, 0],
+                [1, 1, 1],
+                [0, 1, 0],
+            ].reverse(), [
+                [0, 1, 0],
+                [1, 1, 0],
+                [0, 1, 0],
+            ].reverse(),
+        ], [
+            [
+                [0, 0, 0, 0],
+                [1, 1, 1, 1],
+                [0, 0, 0, 0],
+                [0, 0, 0, 0],
+            ].reverse(), [
+                [0, 0, 1, 0],
+                [0, 0, 1, 0],
+                [0, 0, 1, 0],
+                [0, 0, 1, 0],
+            ].reverse(), [
+                [0, 0, 0, 0],
+                [0, 0, 0, 0],
+                [1, 1, 1, 1],
+                [0, 0, 0, 0],
+            ].reverse(), [
+                [0, 1, 0, 0],
+                [0, 1, 0, 0],
+                [0, 1, 0, 0],
+                [0, 1, 0, 0],
+            ].reverse(),
+        ], [
+            [
+                [0, 0, 1],
+                [1, 1, 1],
+                [0, 0, 0],
+            ].reverse(), [
+                [0, 1, 0],
+                [0, 1, 0],
+                [0, 1, 1],
+            ].reverse(), [
+                [0, 0, 0],
+                [1, 1, 1],
+                [1, 0, 0],
+            ].reverse(), [
+                [1, 1, 0],
+                [0, 1, 0],
+                [0, 1, 0],
+            ].reverse(),
+        ], [
+            [
+                [1, 0, 0],
+                [1, 1, 1],
+                [0, 0, 0],
+            ].reverse(), [
+                [0, 1, 1],
+                [0, 1, 0],
+                [0, 1, 0],
+            ].reverse(), [
+                [0, 0, 0],
+                [1, 1, 1],
+                [0, 0, 1],
+            ].reverse(), [
+                [0, 1, 0],
+                [0, 1, 0],
+                [1, 1, 0],
+            ].reverse(),
+        ],
+    ];
+    private static I_PIECE = 4;
+    private static O_PIECE = 0;
+    private static T_PIECE = 3;
+
+    // Offsets for the rotation "from>to", y points up.
+    private static KICKS: { [rotation: string]: number[][] } = {
+        "0>1": [[0, 0], [-1, 0], [-1, 1], [0, -2], [-1, -2]],
+        "1>0": [[0, 0], [1, 0], [1, -1], [0, 2], [1, 2]],
+        "1>2": [[0, 0], [1, 0], [1, -1], [0, 2], [1, 2]],
+        "2>1": [[0, 0], [-1, 0], [-1, 1], [0, -2], [-1, -2]],
+        "2>3": [[0, 0], [1, 0], [1, 1], [0, -2], [1, -2]],
+        "3>2": [[0, 0], [-1, 0], [-1, -1], [0, 2], [-1, 2]],
+        "3>0": [[0, 0], [-1, 0], [-1, -1], [0, 2], [-1, 2]],
+        "0>3": [[0, 0], [1, 0], [1, 1], [0, -2], [1, -2]],
+    };
+    private static I_KICKS: { [rotation: string]: number[][] } = {
+        "0>1": [[0, 0], [-2, 0], [1, 0], [-2, -1], [1, 2]],
+        "1>0": [[0, 0], [2, 0], [-1, 0], [2, 1], [-1, -2]],
+        "1>2": [[0, 0], [-1, 0], [2, 0], [-1, 2], [2, -1]],
+        "2>1": [[0, 0], [1, 0], [-2, 0], [1, -2], [-2, 1]],
+        "2>3": [[0, 0], [2, 0], [-1, 0], [2, 1], [-1, -2]],
+        "3>2": [[0, 0], [-2, 0], [1, 0], [-2, -1], [1, 2]],
+        "3>0": [[0, 0], [1, 0], [-2, 0], [1, -2], [-2, 1]],
+        "0>3": [[0, 0], [-1, 0], [2, 0], [-1, 2], [2, -1]],
+    };
+    // The guideline has no 180 degree rotation, these are kept small on purpose.
+    private static KICKS_180 = [[0, 0], [0, 1], [1, 0], [-1, 0], [0, -1]];
+
+    get pieces(): number[][][][] {
+        return SrsRotation.PIECES;
+    }
+
+    get sprites(): number[] {
+        return SrsRotation.PIECES.map((piece, i) => i);
+    }
+
+    get tPiece(): number {
+        return SrsRotation.T_PIECE;
+    }
+
+    kicks(piece: number, from: number, to: number): Vec2[] {
+        var table: number[][];
+        if (piece == SrsRotation.O_PIECE) {
+            table = [[0, 0]];
+        } else if ((from + 2) % 4 == to) {
+            table = SrsRotation.KICKS_180;
+        } else if (piece == SrsRotation.I_PIECE) {
+            table = SrsRotation.I_KICKS[from + ">" + to];
+        } else {
+            table = SrsRotation.KICKS[from + ">" + to];
+        }
+        return table.map((offset) => new Vec2(offset[0], offset[1]));
+    }
+}
+
+// The original rotation tables of this game, a rotation that collides does nothing.
+class ClassicRotation implements RotationSystem {
+    static PIECES = [
+        [
+            [
+                [0, 1, 1, 0],
+                [0, 1, 1, 0],
+                [0, 0, 0, 0],
+                [0, 0, 0, 0],
+            ].reverse(),
+        ], [
+            [
+                [0, 0, 1, 0],
+                [0, 1, 1, 0],
+                [0, 1, 0, 0],
+                [0, 0, 0, 0],
+            ].reverse(), [
+                [0, 1, 1, 0],
+                [0, 0, 1, 1],
+                [0, 0, 0, 0],
+                [0, 0, 0, 0],
+            ].reverse(),
+        ], [
+            [
+                [0, 1, 0, 0],
+                [0, 1, 1, 0],
+                [0, 0, 1, 0],
+                [0, 0, 0, 0],
+            ].reverse(), [
+                [0, 0, 1, 1],
+                [0, 1, 1, 0],
+                [0, 0, 0, 0],
+                [0, 0, 0, 0],
+            ].reverse(),
+        ], [
+            [
+                [0, 1, 0, 0],
+                [0, 1, 1, 0],
+                [0, 1, 0, 0],
+                [0, 0, 0, 0],
+            ].reverse(), [
+                [0, 1, 1, 1],
+                [0, 0, 1, 0],
+                [0, 0, 0, 0],
+                [0, 0, 0, 0],
+            ].reverse(), [
+                [0, 0, 1, 0],
+                [0, 1, 1, 0],
+                [0, 0, 1, 0],
+                [0, 0, 0, 0],
+            ].reverse(), [
+                [0, 0, 1, 0],
+                [0, 1, 1, 1],
+                [0, 0, 0, 0],
+                [0, 0, 0, 0],
+            ].reverse(),
+        ], [
+            [
+                [0, 0, 1, 0],
+                [0, 0, 1, 0],
+                [0, 0, 1, 0],
+                [0, 0, 1, 0],
+            ].reverse(), [
+                [1, 1, 1, 1],
+                [0, 0, 0, 0],
+                [0, 0, 0, 0],
+                [0, 0, 0, 0],
+            ].reverse(),
+        ], [
+            [
+                [0, 1, 0, 0],
+                [0, 1, 0, 0],
+                [0, 1, 1, 0],
+                [0, 0, 0, 0],
+            ].reverse(), [
+                [0, 1, 1, 1],
+                [0, 1, 0, 0],
+                [0, 0, 0, 0],
+                [0, 0, 0, 0],
+            ].reverse(), [
+                [0, 1, 1, 0],
+                [0, 0, 1, 0],
+                [0, 0, 1, 0],
+                [0, 0, 0, 0],
+            ].reverse(), [
+                [0, 0, 0, 1],
+                [0, 1, 1, 1],
+                [0, 0, 0, 0],
+                [0, 0, 0, 0],
+            ].reverse(),
+        ], [
+            [
+                [0, 0, 1, 0],
+                [0, 0, 1, 0],
+                [0, 1, 1, 0],
+                [0, 0, 0, 0],
+            ].reverse(), [
+                [0, 1, 0, 0],
+                [0, 1, 1, 1],
+                [0, 0, 0, 0],
+                [0, 0, 0, 0],
+            ].reverse(), [
+                [0, 1, 1, 0],
+                [0, 1, 0, 0],
+                [0, 1, 0, 0],
+                [0, 0, 0, 0],
+            ].reverse(), [
+                [0, 1, 1, 1],
+                [0, 0, 0, 1],
+                [0, 0, 0, 0],
+                [0, 0, 0, 0],
+            ].reverse(),
+        ],
+    ];
+    get pieces(): number[][][][] {
+        return ClassicRotation.PIECES;
+    }
+
+    get sprites(): number[] {
+        return ClassicRotation.PIECES.map((piece, i) => i);
+    }
+
+    get tPiece(): number {
+        // The T piece is in a 4x4 matrix here, T-spins are not supported.
+        return -1;
+    }
+
+    kicks(piece: number, from: number, to: number): Vec2[] {
+        return [new Vec2(0, 0)];
+    }
+}
+
+// The pieces of a piece set with the kicks it lists.
+class PieceSetRotation implements RotationSystem {
+    pieces: number[][][][];
+    sprites: number[];
+    tPiece: number;
+    private offsets: Vec2[];
+
+    constructor(set: PieceSet) {
+        this.pieces = set.pieces.map((piece) => pieceMatrices(piece));
+        this.sprites = set.pieces.map((piece) => piece.sprite);
+        this.tPiece = -1;
+        this.offsets = (set.kicks || [[0, 0]]).map((kick) => new Vec2(kick[0], kick[1]));
+    }
+
+    kicks(piece: number, from: number, to: number): Vec2[] {
+        return this.offsets;
+    }
+}
+
+// A piece set takes the place of the pieces and kicks of the rotation system.
+function createRotationSystem(kind: string, pieceSet: PieceSet = null): RotationSystem {
+    if (pieceSet) {
+        return new PieceSetRotation(pieceSet);
+    }
+    switch (kind) {
+        case "srs":
+            return new SrsRotation();
+        case "classic":
+            return new ClassicRotation();
+        default:
+            throw "Unknown rotation system " + kind;
+    }
+}
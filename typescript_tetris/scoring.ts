@@ -0,0 +1,139 @@
+﻿// Scoring systems turn locked pieces and drops into points.
+
+enum TSpin {
+    None,
+    Mini,
+    Full,
+}
+
+interface LockResult {
+    lines: number;  // number of cleared lines
+    tSpin: TSpin;
+    perfectClear: boolean;  // the field is empty after clearing
+    level: number;  // level before the lines were counted
+}
+
+interface ScoreAward {
+    points: number;
+    label: string;  // shown to the player, null for points that are not worth a label
+}
+
+interface ScoringSystem {
+    lock(result: LockResult): ScoreAward[];
+    softDrop(rows: number): number;
+    hardDrop(rows: number): number;
+}
+
+// Guideline scoring with T-spins, combos, back-to-back and perfect clears.
+class GuidelineScoring implements ScoringSystem {
+    private static LINES = [0, 100, 300, 500, 800];
+    private static LINE_NAMES = ["", "SINGLE", "DOUBLE", "TRIPLE", "TETRIS"];
+    private static T_SPIN = [400, 800, 1200, 1600];
+    private static T_SPIN_MINI = [100, 200, 400];
+    private static PERFECT_CLEAR = [0, 800, 1200, 1800, 2000];
+    private static PERFECT_CLEAR_B2B_TETRIS = 3200;
+    private static COMBO = 50;
+    private static B2B_FACTOR = 1.5;
+
+    private combo: number;  // -1 if the last piece cleared nothing
+    private backToBack: boolean;  // the last clear was a Tetris or a T-spin
+
+    constructor() {
+        this.combo = -1;
+        this.backToBack = false;
+    }
+
+    lock(result: LockResult): ScoreAward[] {
+        var awards: ScoreAward[] = [];
+        var level = result.level;
+        var lines = result.lines;
+
+        var points: number;
+        var label: string;
+        if (result.tSpin == TSpin.Full) {
+            points = GuidelineScoring.T_SPIN[Math.min(lines, 3)];
+            label = lines > 0 ? "T-SPIN " + GuidelineScoring.LINE_NAMES[lines] : "T-SPIN";
+        } else if (result.tSpin == TSpin.Mini) {
+            points = GuidelineScoring.T_SPIN_MINI[Math.min(lines, 2)];
+            label = lines > 0 ? "MINI T-SPIN " + GuidelineScoring.LINE_NAMES[lines] : "MINI T-SPIN";
+        } else {
+            points = GuidelineScoring.LINES[Math.min(lines, 4)];
+            label = lines > 0 ? GuidelineScoring.LINE_NAMES[Math.min(lines, 4)] : null;
+        }
+
+        if (lines == 0) {
+            // T-spins without lines neither break nor continue back-to-back.
+            this.combo = -1;
+            if (points > 0) {
+                awards.push({ points: points * level, label: label });
+            }
+            return awards;
+        }
+
+        var difficult = lines >= 4 || result.tSpin != TSpin.None;
+        var backToBack = difficult && this.backToBack;
+        if (backToBack) {
+            points *= GuidelineScoring.B2B_FACTOR;
+        }
+        awards.push({ points: points * level, label: label });
+        if (backToBack) {
+            awards.push({ points: 0, label: "BACK-TO-BACK" });
+        }
+        this.backToBack = difficult;
+
+        ++this.combo;
+        if (this.combo > 0) {
+            awards.push({ points: GuidelineScoring.COMBO * this.combo * level, label: "COMBO " + this.combo });
+        }
+
+        if (result.perfectClear) {
+            var bonus = backToBack && lines >= 4 ?
+                GuidelineScoring.PERFECT_CLEAR_B2B_TETRIS :
+                GuidelineScoring.PERFECT_CLEAR[Math.min(lines, 4)];
+            awards.push({ points: bonus * level, label: "PERFECT CLEAR" });
+        }
+
+        return awards;
+    }
+
+    softDrop(rows: number): number {
+        return rows;
+    }
+
+    hardDrop(rows: number): number {
+        return 2 * rows;
+    }
+}
+
+// The original table of the game: 40, 100, 300 and 1200 points times level.
+class NesScoring implements ScoringSystem {
+    private static LINES = [0, 40, 100, 300, 1200];
+    private static LINE_NAMES = ["", "SINGLE", "DOUBLE", "TRIPLE", "TETRIS"];
+
+    lock(result: LockResult): ScoreAward[] {
+        if (result.lines == 0) {
+            return [];
+        }
+        var lines = Math.min(result.lines, 4);
+        return [{ points: NesScoring.LINES[lines] * result.level, label: NesScoring.LINE_NAMES[lines] }];
+    }
+
+    softDrop(rows: number): number {
+        return 0;
+    }
+
+    hardDrop(rows: number): number {
+        return 0;
+    }
+}
+
+function createScoringSystem(kind: string): ScoringSystem {
+    switch (kind) {
+        case "guideline":
+            return new GuidelineScoring();
+        case "nes":
+            return new NesScoring();
+        default:
+            throw "Unknown scoring system " + kind;
+    }
+}
@@ -0,0 +1,381 @@
+﻿/// <reference path="protocol.ts" />
+
+// Reference server for versus over the network, for Node without any packages:
+//
+//   tsc --out server.js server.ts
+//   node server.js [port]
+//
+// It serves the game from the directory of server.js and takes WebSocket
+// connections on the same port. Players meet in rooms of two, the server starts
+// the matches, relays boards, inputs and garbage and decides who won, see matchWinner.
+// It does not run the games itself, so it trusts the clients.
+
+declare var require: any;
+declare var process: any;
+declare var Buffer: any;
+declare var __dirname: string;
+
+// One WebSocket connection (RFC 6455), text messages only.
+class WebSocketConnection {
+    static GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+    static MAX_MESSAGE = 65536;  // bytes, a board is far smaller
+
+    onMessage: (text: string) => void;
+    onClose: () => void;
+
+    private buffer: any;  // received bytes not yet parsed
+    private fragments: any[];  // of a message that is not complete yet
+    private closed: boolean;
+
+    constructor(private socket: any) {
+        this.onMessage = null;
+        this.onClose = null;
+        this.buffer = Buffer.alloc(0);
+        this.fragments = [];
+        this.closed = false;
+        socket.on("data", (data: any) => {
+            this.buffer = Buffer.concat([this.buffer, data]);
+            this.parse();
+        });
+        socket.on("close", () => {
+            if (!this.closed) {
+                this.finish();
+            }
+        });
+        socket.on("error", () => socket.destroy());
+    }
+
+    // Answers the upgrade request, returns null if it is not a WebSocket handshake.
+    static accept(request: any, socket: any): WebSocketConnection {
+        var key = request.headers["sec-websocket-key"];
+        if ((request.headers["upgrade"] || "").toLowerCase() != "websocket" || !key) {
+            socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+            return null;
+        }
+        var accept = require("crypto").createHash("sha1").update(key + WebSocketConnection.GUID).digest("base64");
+        socket.write("HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+            "Sec-WebSocket-Accept: " + accept + "\r\n\r\n");
+        socket.setNoDelay(true);
+        return new WebSocketConnection(socket);
+    }
+
+    send(text: string): void {
+        if (this.closed)
+            return;
+        var payload = Buffer.from(text, "utf8");
+        var header: any;
+        if (payload.length < 126) {
+            header = Buffer.from([0x81, payload.length]);
+        } else if (payload.length < 65536) {
+            header = Buffer.from([0x81, 126, payload.length >> 8, payload.length & 0xff]);
+        } else {
+            header = Buffer.alloc(10);
+            header[0] = 0x81;
+            header[1] = 127;
+            header.writeUInt32BE(payload.length, 6);
+        }
+        this.socket.write(Buffer.concat([header, payload]));
+    }
+
+    close(code: number): void {
+        if (this.closed)
+            return;
+        this.socket.end(Buffer.from([0x88, 2, code >> 8, code & 0xff]));
+        this.finish();
+    }
+
+    private finish(): void {
+        this.closed = true;
+        if (this.onClose) {
+            this.onClose();
+        }
+    }
+
+    // Takes every complete frame off the buffer.
+    private parse(): void {
+        while (!this.closed && this.buffer.length >= 2) {
+            var fin = (this.buffer[0] & 0x80) != 0;
+            var opcode = this.buffer[0] & 0x0f;
+            var masked = (this.buffer[1] & 0x80) != 0;
+            var length = this.buffer[1] & 0x7f;
+            var offset = 2;
+            if (length == 126) {
+                if (this.buffer.length < 4)
+                    return;
+                length = this.buffer.readUInt16BE(2);
+                offset = 4;
+            } else if (length == 127) {
+                if (this.buffer.length < 10)
+                    return;
+                length = this.buffer.readUInt32BE(2) > 0 ? Infinity : this.buffer.readUInt32BE(6);
+                offset = 10;
+            }
+            if (!masked) {
+                this.close(1002);  // clients have to mask
+                return;
+            }
+            if (length + this.fragments.reduce((sum, fragment) => sum + fragment.length, 0) > WebSocketConnection.MAX_MESSAGE) {
+                this.close(1009);
+                return;
+            }
+            if (this.buffer.length < offset + 4 + length)
+                return;
+
+            var mask = this.buffer.slice(offset, offset + 4);
+            var payload = this.buffer.slice(offset + 4, offset + 4 + length);
+            for (var i = 0; i < payload.length; ++i) {
+                payload[i] ^= mask[i % 4];
+            }
+            this.buffer = this.buffer.slice(offset + 4 + length);
+
+            switch (opcode) {
+                case 0x0:  // continuation
+                case 0x1:  // text
+                    this.fragments.push(payload);
+                    if (fin) {
+                        var text = Buffer.concat(this.fragments).toString("utf8");
+                        this.fragments = [];
+                        if (this.onMessage) {
+                            this.onMessage(text);
+                        }
+                    }
+                    break;
+                case 0x8:  // close
+                    this.close(1000);
+                    break;
+                case 0x9:  // ping
+                    this.socket.write(Buffer.concat([Buffer.from([0x8a, payload.length]), payload]));
+                    break;
+                case 0xa:  // pong
+                    break;
+                default:
+                    this.close(1003);  // binary data is not used
+                    break;
+            }
+        }
+    }
+}
+
+interface Player {
+    connection: WebSocketConnection;
+    name: string;
+    room: Room;  // null while in the lobby
+    ready: boolean;
+    result: MatchResult;  // of the running match, null while the game goes on
+}
+
+interface Room {
+    name: string;
+    players: Player[];
+    playing: boolean;  // a match is running
+}
+
+class VersusServer {
+    static ROOM_SIZE = 2;
+    static MAX_NAME = 16;  // characters of player and room names
+    static TYPES: { [extension: string]: string } = {
+        ".html": "text/html; charset=utf-8",
+        ".js": "application/javascript",
+        ".css": "text/css",
+        ".json": "application/json",
+        ".png": "image/png",
+        ".svg": "image/svg+xml",
+    };
+
+    private players: Player[];
+    private rooms: { [name: string]: Room };
+
+    constructor(private root: string) {
+        this.players = [];
+        this.rooms = {};
+    }
+
+    listen(port: number): void {
+        var server = require("http").createServer(this.serveFile.bind(this));
+        server.on("upgrade", (request: any, socket: any) => {
+            var connection = WebSocketConnection.accept(request, socket);
+            if (connection) {
+                this.connect(connection);
+            }
+        });
+        server.listen(port, () => console.log("Versus server on http://localhost:" + port + "/"));
+    }
+
+    // The game itself, so the players only need the address of the server.
+    private serveFile(request: any, response: any): void {
+        var path = require("path");
+        var url: string;
+        try {
+            url = decodeURIComponent(request.url.split("?")[0]);
+        } catch (e) {
+            response.writeHead(400);
+            response.end();
+            return;
+        }
+        var file = path.join(this.root, path.normalize(url == "/" ? "/index.html" : url));
+        if (file.indexOf(this.root) != 0) {
+            response.writeHead(403);
+            response.end();
+            return;
+        }
+        require("fs").readFile(file, (error: any, data: any) => {
+            if (error) {
+                response.writeHead(404);
+                response.end();
+                return;
+            }
+            response.writeHead(200, { "Content-Type": VersusServer.TYPES[path.extname(file)] || "application/octet-stream" });
+            response.end(data);
+        });
+    }
+
+    private connect(connection: WebSocketConnection): void {
+        var player: Player = { connection: connection, name: null, room: null, ready: false, result: null };
+        this.players.push(player);
+        connection.onMessage = (text) => {
+            var message: Message;
+            try {
+                message = JSON.parse(text);
+            } catch (e) {
+                this.send(player, { type: "error", message: "Invalid message" });
+                return;
+            }
+            this.handleMessage(player, message);
+        };
+        connection.onClose = () => {
+            this.leave(player);
+            this.players.splice(this.players.indexOf(player), 1);
+        };
+        this.send(player, { type: "rooms", rooms: this.roomList() });
+    }
+
+    private handleMessage(player: Player, message: Message): void {
+        var room = player.room;
+        switch (message.type) {
+            case "join":
+                this.join(player, message.room, message.name);
+                break;
+            case "ready":
+                if (room && !room.playing) {
+                    player.ready = true;
+                    this.startMatch(room);
+                }
+                break;
+            case "board":
+            case "input":
+                if (room && room.playing) {
+                    this.relay(player, { type: message.type, name: player.name, board: message.board,
+                        frame: message.frame, action: message.action });
+                }
+                break;
+            case "attack":
+                if (room && room.playing && typeof message.rows == "number") {
+                    this.relay(player, { type: "attack", name: player.name, rows: message.rows });
+                }
+                break;
+            case "lost":
+            case "finished":
+                if (room && room.playing && !player.result) {
+                    var finished = message.type == "finished" && typeof message.score == "number" && typeof message.time == "number";
+                    player.result = { finished: finished, score: finished ? message.score : 0, time: finished ? message.time : 0 };
+                    var modes = GAME_MODES.filter((mode) => mode.name == message.mode);
+                    var winner = matchWinner(room.players.map((other) => other.result), modes.length > 0 && modes[0].rankByTime);
+                    if (winner != null) {
+                        this.endMatch(room, winner >= 0 ? room.players[winner].name : null);
+                    }
+                }
+                break;
+            default:
+                this.send(player, { type: "error", message: "Unknown message: " + message.type });
+                break;
+        }
+    }
+
+    private join(player: Player, roomName: string, name: string): void {
+        var valid = (text: string) => typeof text == "string" && text.trim().length > 0 && text.length <= VersusServer.MAX_NAME;
+        if (!valid(roomName) || !valid(name)) {
+            this.send(player, { type: "error", message: "Room and name need 1 to " + VersusServer.MAX_NAME + " characters" });
+            return;
+        }
+        var room = this.rooms[roomName];
+        if (room && room != player.room && room.players.length >= VersusServer.ROOM_SIZE) {
+            this.send(player, { type: "error", message: "The room " + roomName + " is full" });
+            return;
+        }
+        if (room && room.players.some((other) => other != player && other.name == name)) {
+            this.send(player, { type: "error", message: "The name " + name + " is taken in this room" });
+            return;
+        }
+
+        this.leave(player);
+        if (!this.rooms[roomName]) {
+            this.rooms[roomName] = { name: roomName, players: [], playing: false };
+        }
+        room = this.rooms[roomName];
+        player.name = name;
+        player.room = room;
+        room.players.push(player);
+        var players = room.players.map((other) => other.name);
+        room.players.forEach((other) => this.send(other, { type: "joined", room: room.name, players: players }));
+        this.broadcastRooms();
+    }
+
+    // Out of the room, a running match ends without a result.
+    private leave(player: Player): void {
+        var room = player.room;
+        if (!room)
+            return;
+        room.players.splice(room.players.indexOf(player), 1);
+        player.room = null;
+        player.ready = false;
+        room.playing = false;
+        room.players.forEach((other) => this.send(other, { type: "left", name: player.name }));
+        if (room.players.length == 0) {
+            delete this.rooms[room.name];
+        }
+        this.broadcastRooms();
+    }
+
+    private startMatch(room: Room): void {
+        if (room.players.length < VersusServer.ROOM_SIZE || !room.players.every((player) => player.ready))
+            return;
+        room.playing = true;
+        var seed = Prng.randomSeed();
+        room.players.forEach((player) => {
+            player.ready = false;
+            player.result = null;
+            this.send(player, { type: "start", seed: seed });
+        });
+    }
+
+    private endMatch(room: Room, winner: string): void {
+        room.playing = false;
+        room.players.forEach((player) => this.send(player, { type: "result", winner: winner }));
+    }
+
+    // To everyone else in the room of the player.
+    private relay(player: Player, message: Message): void {
+        player.room.players.forEach((other) => {
+            if (other != player) {
+                this.send(other, message);
+            }
+        });
+    }
+
+    private roomList(): RoomInfo[] {
+        return Object.keys(this.rooms).sort().map((name) => {
+            return { name: name, players: this.rooms[name].players.map((player) => player.name) };
+        });
+    }
+
+    private broadcastRooms(): void {
+        var rooms = this.roomList();
+        this.players.forEach((player) => this.send(player, { type: "rooms", rooms: rooms }));
+    }
+
+    private send(player: Player, message: Message): void {
+        player.connection.send(JSON.stringify(message));
+    }
+}
+
+new VersusServer(__dirname).listen(parseInt(process.argv[2], 10) || 8080);
@@ -0,0 +1,495 @@
+﻿/// <reference path="engine.ts" />
+/// <reference path="highscores.ts" />
+/// <reference path="protocol.ts" />
+/// <reference path="replay.ts" />
+
+// Checks of the engine rules under Node, without a browser:
+//
+//   tsc --out test.js test.ts
+//   node test.js
+//
+// Every check drives a GameEngine through tick() and applyInput() like a game
+// does and looks at its state and events. The exit code is 1 if one fails.
+
+declare var process: any;
+
+var failures = 0;
+
+function check(name: string, test: () => void): void {
+    try {
+        test();
+        console.log("ok   " + name);
+    } catch (e) {
+        ++failures;
+        console.log("FAIL " + name + ": " + e);
+    }
+}
+
+function expect(actual: any, expected: any, what: string): void {
+    if (JSON.stringify(actual) != JSON.stringify(expected)) {
+        throw what + " is " + JSON.stringify(actual) + ", expected " + JSON.stringify(expected);
+    }
+}
+
+// Standard pieces on a 10 by 20 board, always with the same seed.
+function testRules(): GameRules {
+    var rules = GameEngine.defaultRules();
+    rules.seed = 1;
+    rules.width = 10;
+    rules.height = 20;
+    return rules;
+}
+
+function puzzleRules(puzzle: Puzzle): GameRules {
+    var rules = testRules();
+    rules.mode = "puzzle";
+    rules.puzzle = puzzle;
+    return rules;
+}
+
+// The engine with the types of all events it emits and the labels of the awards.
+function recorded(rules: GameRules): { engine: GameEngine; events: string[]; labels: string[] } {
+    var result = { engine: new GameEngine(rules), events: <string[]> [], labels: <string[]> [] };
+    result.engine.onEvent = (event) => {
+        result.events.push(GameEventType[event.type]);
+        if (event.label) {
+            result.labels.push(event.label);
+        }
+    };
+    return result;
+}
+
+// A puzzle with one piece on the field, for moving a piece around.
+function piecePuzzle(pieces: string, field: string[]): Puzzle {
+    return { name: "pieces", field: field, pieces: pieces, goal: { type: "lines", lines: 4 } };
+}
+
+// Stands the I piece up and moves it against the right wall.
+function iToRightWall(engine: GameEngine): void {
+    engine.applyInput(GameAction.RotateCW);
+    for (var i = 0; i < engine.rules.width; ++i) {
+        engine.applyInput(GameAction.MoveRight);
+    }
+}
+
+// Soft drops the piece until it rests on the stack, without locking it.
+function dropToStack(engine: GameEngine): void {
+    engine.applyInput(GameAction.SoftDropStart);
+    for (var i = 0; i < 600 && engine.state.piece.position.y != engine.state.ghostPosition.y; ++i) {
+        engine.tick(GameEngine.FRAME_TIME);
+    }
+    engine.applyInput(GameAction.SoftDropEnd);
+}
+
+function filledCells(state: GameState): number {
+    var count = 0;
+    for (var y = 0; y < state.field.height; ++y) {
+        for (var x = 0; x < state.field.width; ++x) {
+            count += state.field.get(x, y) != 0 ? 1 : 0;
+        }
+    }
+    return count;
+}
+
+// The first count pieces a randomizer of the seven standard pieces deals.
+function dealt(kind: string, seed: number, count: number): number[] {
+    var randomizer = createRandomizer(kind, new Prng(seed), 7);
+    var pieces: number[] = [];
+    for (var i = 0; i < count; ++i) {
+        pieces.push(randomizer.next());
+    }
+    return pieces;
+}
+
+check("the same seed deals the same pieces, another seed others", () => {
+    ["bag", "uniform", "history"].forEach((kind) => {
+        expect(dealt(kind, 7, 50), dealt(kind, 7, 50), kind + " pieces of seed 7");
+        expect(dealt(kind, 7, 50).join("") != dealt(kind, 8, 50).join(""), true, kind + " pieces of seeds 7 and 8 differ");
+    });
+    var rules = testRules();
+    expect(new GameEngine(rules).state.nextPieces, new GameEngine(rules).state.nextPieces, "next pieces of two games");
+});
+
+check("the bag deals every piece once in every seven", () => {
+    var pieces = dealt("bag", 3, 70);
+    for (var bag = 0; bag < 10; ++bag) {
+        expect(pieces.slice(bag * 7, bag * 7 + 7).sort(), [0, 1, 2, 3, 4, 5, 6], "bag " + bag);
+    }
+    var state = new GameEngine(testRules()).state;
+    expect([state.piece.index].concat(state.nextPieces).sort(), [0, 1, 2, 3, 4, 5, 6], "first bag of a game");
+});
+
+check("the history randomizer repeats pieces less often than chance", () => {
+    var repeats = (pieces: number[]) => pieces.filter((piece, i) => i > 0 && pieces[i - 1] == piece).length;
+    var history = repeats(dealt("history", 5, 700));
+    var uniform = repeats(dealt("uniform", 5, 700));
+    expect(history * 4 < uniform, true, history + " repeats of history against " + uniform + " of uniform, fewer than a quarter");
+    expect(dealt("history", 5, 700).filter((piece) => piece < 0 || piece >= 7).length, 0, "pieces out of range");
+});
+
+check("a piece spawns at the top with the queue dealt", () => {
+    var engine = new GameEngine(testRules());
+    var state = engine.state;
+    expect(state.piece != null, true, "piece");
+    expect(state.piece.rotation, 0, "rotation");
+    var matrix = engine.pieces[state.piece.index][0];
+    expect(state.piece.position, GameEngine.spawnPosition(state.field, matrix), "position");
+    expect(state.nextPieces.length, GameEngine.NEXT_PIECES, "next pieces");
+});
+
+check("hard drop locks the piece where the ghost is and spawns the next one", () => {
+    var engine = new GameEngine(testRules());
+    var before = engine.state;
+    engine.applyInput(GameAction.HardDrop);
+    var after = engine.state;
+    expect(filledCells(after), 4, "filled cells");
+    var matrix = engine.pieces[before.piece.index][before.piece.rotation];
+    for (var y = 0; y < matrix.length; ++y) {
+        for (var x = 0; x < matrix[y].length; ++x) {
+            if (matrix[y][x] == 1) {
+                expect(after.field.get(before.ghostPosition.x + x, before.ghostPosition.y + y), before.piece.index + 1,
+                    "cell " + x + "," + y + " of the piece");
+            }
+        }
+    }
+    expect(after.piece.index, before.nextPieces[0], "new piece");
+    expect(after.nextPieces.slice(0, 5), before.nextPieces.slice(1), "queue");
+});
+
+check("the I piece kicks off the walls as in SRS", () => {
+    var engine = new GameEngine(puzzleRules(piecePuzzle("I", [".........."])));
+    iToRightWall(engine);
+    expect(engine.state.piece.position, new Vec2(7, 16), "vertical I at the right wall");
+    engine.applyInput(GameAction.RotateCW);
+    expect(engine.state.piece.rotation, 2, "rotation at the right wall");
+    expect(engine.state.piece.position, new Vec2(6, 16), "kicked one to the left");
+
+    engine = new GameEngine(puzzleRules(piecePuzzle("I", [".........."])));
+    engine.applyInput(GameAction.RotateCCW);
+    for (var i = 0; i < engine.rules.width; ++i) {
+        engine.applyInput(GameAction.MoveLeft);
+    }
+    expect(engine.state.piece.position, new Vec2(-1, 16), "vertical I at the left wall");
+    engine.applyInput(GameAction.RotateCCW);
+    expect(engine.state.piece.rotation, 2, "rotation at the left wall");
+    expect(engine.state.piece.position, new Vec2(0, 16), "kicked one to the right, the third kick");
+});
+
+check("a 180 degree rotation turns in place or kicks off the floor", () => {
+    var engine = new GameEngine(puzzleRules(piecePuzzle("T", [".........."])));
+    var position = engine.state.piece.position;
+    engine.applyInput(GameAction.Rotate180);
+    expect(engine.state.piece.rotation, 2, "rotation in the air");
+    expect(engine.state.piece.position, position, "position in the air");
+
+    engine = new GameEngine(puzzleRules(piecePuzzle("T", [".........."])));
+    dropToStack(engine);
+    expect(engine.state.piece.position, new Vec2(3, -1), "flat T on the floor");
+    engine.applyInput(GameAction.Rotate180);
+    expect(engine.state.piece.rotation, 2, "rotation on the floor");
+    expect(engine.state.piece.position, new Vec2(3, 0), "kicked up");
+});
+
+check("a T turned into a slot is a T-spin, one kicked against the wall a mini", () => {
+    var game = recorded(puzzleRules(piecePuzzle("T", ["####......", "###...####", "####.#####"])));
+    var engine = game.engine;
+    engine.applyInput(GameAction.RotateCW);
+    dropToStack(engine);
+    engine.applyInput(GameAction.RotateCW);
+    engine.applyInput(GameAction.HardDrop);
+    expect(game.labels, ["T-SPIN DOUBLE"], "awards of the slot");
+
+    game = recorded(puzzleRules(piecePuzzle("T", [".#########"])));
+    engine = game.engine;
+    for (var i = 0; i < 3; ++i) {
+        engine.applyInput(GameAction.MoveLeft);
+    }
+    dropToStack(engine);
+    engine.applyInput(GameAction.RotateCW);
+    engine.applyInput(GameAction.HardDrop);
+    expect(game.labels, ["MINI T-SPIN SINGLE"], "awards at the wall");
+});
+
+check("guideline scoring counts back-to-back, combos and perfect clears", () => {
+    var scoring = new GuidelineScoring();
+    var lock = (lines: number, tSpin: TSpin, perfectClear: boolean, level: number) =>
+        scoring.lock({ lines: lines, tSpin: tSpin, perfectClear: perfectClear, level: level })
+            .map((award) => award.label + " " + award.points);
+    expect(lock(4, TSpin.None, false, 1), ["TETRIS 800"], "tetris");
+    expect(lock(2, TSpin.Full, false, 1), ["T-SPIN DOUBLE 1800", "BACK-TO-BACK 0", "COMBO 1 50"], "T-spin double after it");
+    expect(lock(1, TSpin.Mini, false, 2), ["MINI T-SPIN SINGLE 600", "BACK-TO-BACK 0", "COMBO 2 200"], "mini after it, level 2");
+    expect(lock(1, TSpin.None, false, 1), ["SINGLE 100", "COMBO 3 150"], "single, no back-to-back");
+    expect(lock(0, TSpin.None, false, 1), [], "no clear ends the combo");
+    expect(lock(4, TSpin.None, true, 1), ["TETRIS 800", "PERFECT CLEAR 2000"], "perfect clear tetris");
+    expect(lock(4, TSpin.None, true, 1), ["TETRIS 1200", "BACK-TO-BACK 0", "COMBO 1 50", "PERFECT CLEAR 3200"],
+        "back-to-back perfect clear tetris");
+    expect(lock(0, TSpin.Full, false, 1), ["T-SPIN 400"], "T-spin without lines");
+    expect(lock(4, TSpin.None, false, 1), ["TETRIS 1200", "BACK-TO-BACK 0"], "back-to-back kept over it");
+});
+
+check("received garbage comes in with the next lock without a clear, one hole per attack", () => {
+    var engine = new GameEngine(testRules());
+    var garbage: number[] = [];
+    engine.onEvent = (event) => {
+        if (event.type == GameEventType.Garbage) {
+            garbage.push(event.lines);
+        }
+    };
+    engine.receiveGarbage(2);
+    engine.receiveGarbage(1);
+    expect(engine.state.pendingGarbage, 3, "pending garbage");
+    engine.applyInput(GameAction.HardDrop);
+    var state = engine.state;
+    expect(garbage, [3], "garbage events");
+    expect(state.pendingGarbage, 0, "pending garbage after the lock");
+    for (var y = 0; y < 3; ++y) {
+        var cells = 0;
+        for (var x = 0; x < state.field.width; ++x) {
+            cells += state.field.get(x, y) == GameEngine.GARBAGE ? 1 : 0;
+        }
+        expect(cells, state.field.width - 1, "garbage cells in row " + y);
+    }
+    expect(filledCells(state), 3 * (state.field.width - 1) + 4, "cells with the piece on top");
+});
+
+check("a clear cancels received garbage before attacking", () => {
+    var engine = new GameEngine(puzzleRules({ name: "tetris", field: ["#########.", "#########.", "#########.", "#########."],
+        pieces: "II", goal: { type: "lines", lines: 8 } }));
+    var attacks: number[] = [];
+    engine.onEvent = (event) => {
+        if (event.type == GameEventType.Attack) {
+            attacks.push(event.lines);
+        }
+    };
+    engine.receiveGarbage(3);
+    iToRightWall(engine);
+    engine.applyInput(GameAction.HardDrop);
+    expect(attacks, [GameEngine.ATTACK[4] - 3], "attack left after cancelling");
+    expect(engine.state.pendingGarbage, 0, "pending garbage");
+});
+
+check("a replay plays back the same game, received garbage included", () => {
+    var engine = new GameEngine(testRules());
+    var recorder = new ReplayRecorder(engine);
+    var prng = new Prng(11);
+    var actions = [GameAction.MoveLeft, GameAction.MoveRight, GameAction.RotateCW, GameAction.RotateCCW,
+        GameAction.Rotate180, GameAction.Hold, GameAction.HardDrop];
+    for (var frame = 0; frame < 3000 && !engine.state.gameOver; ++frame) {
+        if (frame % 7 == 0) {
+            recorder.apply(actions[prng.nextInt(actions.length)]);
+        }
+        if (frame % 400 == 0) {
+            recorder.receiveGarbage(1 + prng.nextInt(3));
+        }
+        engine.tick(GameEngine.FRAME_TIME);
+    }
+    var replay = ReplayRecorder.fromJson(ReplayRecorder.toJson(recorder.replay));
+    expect(replay.inputs.some((input) => input[1] == ReplayRecorder.GARBAGE), true, "garbage in the replay");
+    var player = new ReplayPlayer(replay);
+    player.seek(replay.frames);
+    var expected = engine.state;
+    var actual = player.engine.state;
+    expect(actual.field, expected.field, "field");
+    expect([actual.score, actual.lines, actual.gameOver], [expected.score, expected.lines, expected.gameOver], "score, lines and game over");
+    expect(player.frame, engine.frame, "frame");
+});
+
+check("a full row is shown for the clear delay, then removed", () => {
+    var game = recorded(puzzleRules({ name: "clear", field: ["#########."], pieces: "II", goal: { type: "lines", lines: 2 } }));
+    var engine = game.engine;
+    iToRightWall(engine);
+    engine.applyInput(GameAction.HardDrop);
+    expect(game.events.indexOf("LineClear") != -1, true, "line clear event");
+    expect(engine.state.clearingRows, [0], "clearing rows");
+    expect(engine.state.piece, null, "piece during the delay");
+
+    engine.tick(engine.rules.lineClearDelay - 2 * GameEngine.FRAME_TIME);
+    expect(engine.state.clearingRows, [0], "clearing rows before the delay passed");
+    engine.tick(3 * GameEngine.FRAME_TIME);
+    var state = engine.state;
+    expect(state.clearingRows, [], "clearing rows after the delay");
+    expect(state.lines, 1, "lines");
+    expect(filledCells(state), 3, "cells of the I left");
+    expect(state.piece != null, true, "next piece");
+    expect(state.gameOver, false, "game over");
+});
+
+check("a piece locked by gravity without lock delay waits for the line clear", () => {
+    var rules = puzzleRules({ name: "clear", field: ["#########."], pieces: "II", goal: { type: "lines", lines: 2 } });
+    rules.lockDelay = 0;
+    var game = recorded(rules);
+    var engine = game.engine;
+    (<any> engine).level = 20;  // several rows per frame, so the piece locks in the middle of a frame
+    iToRightWall(engine);
+    engine.applyInput(GameAction.SoftDropStart);
+    for (var i = 0; i < 600 && game.events.indexOf("LineClear") == -1; ++i) {
+        engine.tick(GameEngine.FRAME_TIME);
+    }
+    engine.applyInput(GameAction.SoftDropEnd);
+    expect(engine.state.clearingRows, [0], "clearing rows");
+    expect(engine.state.piece, null, "piece during the delay");
+    engine.tick(engine.rules.lineClearDelay + GameEngine.FRAME_TIME);
+    var state = engine.state;
+    expect(state.piece != null, true, "second piece");
+    expect(state.gameOver, false, "game over");
+    expect(game.events.filter((type) => type == "Lock").length, 1, "locks");
+});
+
+check("a puzzle is finished when its goal is reached", () => {
+    var game = recorded(puzzleRules({ name: "tetris", field: ["#########.", "#########.", "#########.", "#########."],
+        pieces: "I", goal: { type: "clear", lines: 4 } }));
+    var engine = game.engine;
+    iToRightWall(engine);
+    engine.applyInput(GameAction.HardDrop);
+    engine.tick(engine.rules.lineClearDelay + GameEngine.FRAME_TIME);
+    var state = engine.state;
+    expect(state.gameOver, true, "game over");
+    expect(state.finished, true, "finished");
+    expect(state.lines, 4, "lines");
+    expect(game.events.indexOf("Finish") != -1, true, "finish event");
+});
+
+check("a solved puzzle only finishes, without a game over or another piece", () => {
+    // The last piece of the puzzle and one more, locked by the drop and by the
+    // lock delay, with and without a line clear delay.
+    var cases = [
+        { pieces: "I", lineClearDelay: 0, lockDelay: 0 },
+        { pieces: "II", lineClearDelay: 0, lockDelay: 0 },
+        { pieces: "I", lineClearDelay: 0, lockDelay: 500 },
+        { pieces: "II", lineClearDelay: 0, lockDelay: 500 },
+        { pieces: "II", lineClearDelay: 200, lockDelay: 0 },
+    ];
+    cases.forEach((c) => {
+        var rules = puzzleRules({ name: "tetris", field: ["#########.", "#########.", "#########.", "#########."],
+            pieces: c.pieces, goal: { type: "clear", lines: 4 } });
+        rules.lineClearDelay = c.lineClearDelay;
+        rules.lockDelay = c.lockDelay;
+        var game = recorded(rules);
+        var engine = game.engine;
+        iToRightWall(engine);
+        if (c.lockDelay == 0) {
+            engine.applyInput(GameAction.HardDrop);
+        } else {
+            engine.applyInput(GameAction.SoftDropStart);
+            for (var i = 0; i < 600 && game.events.indexOf("Lock") == -1; ++i) {
+                engine.tick(GameEngine.FRAME_TIME);
+            }
+        }
+        engine.tick(c.lineClearDelay + 10 * GameEngine.FRAME_TIME);
+        var what = " of " + JSON.stringify(c);
+        var events = game.events.slice(game.events.indexOf("Lock"));
+        expect(events.indexOf("GameOver"), -1, "game over event" + what);
+        expect(events[events.length - 1], "Finish", "last event" + what);
+        expect(engine.state.piece, null, "piece" + what);
+        expect(engine.state.finished, true, "finished" + what);
+    });
+});
+
+check("an exported board loads as a puzzle again, unless it cannot be played", () => {
+    var engine = new GameEngine(testRules());
+    engine.applyInput(GameAction.HardDrop);
+    var json = JSON.stringify({ name: "exported", puzzles: [puzzleFromState(engine.state, "EXPORTED")] });
+    var puzzle = parsePuzzlePack(json).puzzles[0];
+    expect(puzzleField(puzzle, engine.rules.width, engine.rules.height), engine.state.field, "field");
+    expect(puzzle.pieces.length, 1 + GameEngine.NEXT_PIECES, "pieces");
+
+    var exported = (state: GameState) => {
+        try {
+            puzzleFromState(state, "EXPORTED");
+            return true;
+        } catch (e) {
+            return false;
+        }
+    };
+    while (!engine.state.gameOver && fieldRows(engine.state.field).length <= engine.rules.height - 4) {
+        engine.applyInput(GameAction.HardDrop);
+    }
+    expect(exported(engine.state), false, "a stack without room for the pieces exported");
+    while (!engine.state.gameOver) {
+        engine.applyInput(GameAction.HardDrop);
+    }
+    expect(exported(engine.state), false, "a game that is over exported");
+});
+
+check("a board from the network is taken only with whole numbers in range", () => {
+    var engine = new GameEngine(testRules());
+    var message = () => <BoardMessage> JSON.parse(JSON.stringify(boardToMessage(engine.state)));
+    var rejected = (change: (board: BoardMessage) => void) => {
+        var board = message();
+        change(board);
+        try {
+            boardFromMessage(board, engine.rules, engine.pieces);
+        } catch (e) {
+            return true;
+        }
+        return false;
+    };
+    expect(rejected((board) => { }), false, "the own board rejected");
+    expect(rejected((board) => board.cells[0] = 2.5), true, "cell 2.5 rejected");
+    expect(rejected((board) => board.cells[0] = engine.pieces.length + 1), true, "cell of no piece rejected");
+    expect(rejected((board) => board.nextPieces = [1.5]), true, "next piece 1.5 rejected");
+    expect(rejected((board) => board.holdPiece = -1), true, "hold piece -1 rejected");
+    expect(rejected((board) => board.piece.rotation = 0.5), true, "rotation 0.5 rejected");
+    expect(rejected((board) => board.piece.position.x = Infinity), true, "infinite position rejected");
+    expect(rejected((board) => board.ghostY = null), true, "missing ghost rejected");
+    expect(rejected((board) => board.clearingRows = [engine.rules.height]), true, "clearing row above the field rejected");
+});
+
+function highScore(mode: string, name: string, score: number, time: number, date: string): HighScore {
+    return { name: name, mode: mode, score: score, level: 1, lines: 0, time: time, date: date };
+}
+
+check("high scores rank per mode, best first and the older of equal ones", () => {
+    var saved: string = null;
+    var storage = <Storage> <any> { getItem: (key: string) => saved, setItem: (key: string, value: string) => saved = value };
+    var table = new HighScoreTable(storage);
+    expect(table.add(highScore("endless", "B", 500, 0, "2020-01-02")), 0, "rank of the first score");
+    expect(table.add(highScore("endless", "A", 900, 0, "2020-01-03")), 0, "rank of a better one");
+    expect(table.add(highScore("endless", "C", 500, 0, "2020-01-04")), 2, "rank of an equal one");
+    expect(table.add(highScore("endless", "D", 0, 0, "2020-01-05")), -1, "rank of no score");
+    expect(table.add(highScore("endless 12x20", "E", 100, 0, "2020-01-06")), 0, "rank in another table");
+    expect(table.merge([highScore("endless", "H", 500, 0, "2019-12-31"), highScore("endless", "A", 900, 0, "2020-01-03")]), 1,
+        "merged scores that were new");
+    expect(table.ranking("endless").map((s) => s.name), ["A", "H", "B", "C"], "ranking");
+
+    for (var i = 0; i < HighScoreTable.PER_MODE; ++i) {
+        table.add(highScore("endless", "F" + i, 1000 + i, 0, "2020-02-01"));
+    }
+    expect(table.ranking("endless").length, HighScoreTable.PER_MODE, "scores kept");
+    expect(table.rank(highScore("endless", "G", 900, 0, "2020-03-01")), -1, "rank of a score below the table");
+    expect(new HighScoreTable(storage).ranking("endless"), table.ranking("endless"), "ranking read back from the storage");
+    expect(new HighScoreTable(storage).ranking("endless 12x20").length, 1, "other table read back");
+});
+
+check("high scores of sprint rank the fastest time first, in a table per mode and board", () => {
+    var rules = GameEngine.defaultRules();
+    expect(scoreMode(rules), "endless", "table of the default rules");
+    rules.mode = "sprint";
+    rules.width = 10;
+    rules.height = 20;
+    expect(scoreMode(rules), "sprint 10x20", "table of sprint on another board");
+    expect(HighScoreTable.byTime(scoreMode(rules)), true, "sprint by time");
+    expect(HighScoreTable.byTime("ultra"), false, "ultra by time");
+
+    var table = new HighScoreTable(null);
+    expect(table.add(highScore("sprint", "A", 9000, 65000, "2020-01-01")), 0, "rank of the first time");
+    expect(table.add(highScore("sprint", "B", 100, 50000, "2020-01-02")), 0, "rank of a faster one with fewer points");
+    expect(table.add(highScore("sprint", "C", 100, 0, "2020-01-03")), -1, "rank of no time");
+    expect(table.ranking("sprint").map((s) => s.name), ["B", "A"], "ranking");
+});
+
+check("a match is lost by topping out, won by finishing first in sprint or by score", () => {
+    var finished = (score: number, time: number) => <MatchResult> { finished: true, score: score, time: time };
+    var lost: MatchResult = { finished: false, score: 0, time: 0 };
+    expect(matchWinner([null, null], false), null, "nobody done");
+    expect(matchWinner([lost, null], false), 1, "the first topped out");
+    expect(matchWinner([finished(100, 120000), lost], false), 0, "the second topped out after the first finished");
+    expect(matchWinner([lost, lost], true), -1, "both topped out");
+    expect(matchWinner([null, finished(100, 60000)], true), 1, "the second finished first in sprint");
+    expect(matchWinner([finished(100, 120000), null], false), null, "the first finished, the other plays on for the score");
+    expect(matchWinner([finished(100, 120000), finished(200, 120000)], false), 1, "the second has the higher score");
+    expect(matchWinner([finished(200, 120000), finished(200, 120000)], false), -1, "equal scores");
+});
+
+console.log(failures == 0 ? "All checks passed" : failures + " checks failed");
+process.exit(failures == 0 ? 0 : 1);
@@ -0,0 +1,180 @@
+﻿/// <reference path="controls.ts" />
+
+// Touch input for phones and tablets. The gestures are turned into the same
+// controls as the keys, so they work wherever the keys do.
+
+// Minimal view of a touch point, which older type definitions do not know.
+interface TouchPoint {
+    identifier: number;
+    clientX: number;
+    clientY: number;
+}
+
+// Gestures on an element, measured in cells of the board so they feel the same
+// at any size:
+//  - a tap rotates clockwise
+//  - dragging sideways moves the piece one column per cell dragged
+//  - a quick swipe down hard drops, dragging down and holding soft drops
+//  - a quick swipe up holds the piece
+//  - a tap with two fingers pauses, resumes or starts a new game
+// A sensitivity above 1 needs less finger movement, below 1 more.
+class TouchInput {
+    static TAP_TIME = 250;  // ms a tap may last
+    static TAP_DISTANCE = 0.5;  // cells a tap may move
+    static SWIPE_TIME = 300;  // ms a swipe may last, a longer drag down soft drops
+    static SWIPE_DISTANCE = 3;  // cells a swipe has to cover
+    static SOFT_DROP_DISTANCE = 2;  // cells to drag down before the soft drop starts
+
+    sensitivity: number;
+
+    private touch: number;  // identifier of the tracked touch, null if none
+    private startX: number;
+    private startY: number;
+    private startTime: number;
+    private anchorX: number;  // where the last column move happened
+    private moved: boolean;  // moved the piece sideways, so it is no tap or swipe
+    private softDrop: boolean;
+    private twoFingers: boolean;  // a second finger touched while the first did nothing yet
+
+    // cellSize gives the size of a cell in CSS pixels as it is shown right now.
+    constructor(element: HTMLElement, private cellSize: () => number,
+        private press: (control: Control) => void, private release: (control: Control) => void) {
+        this.sensitivity = 1;
+        this.touch = null;
+        this.softDrop = false;
+        element.addEventListener("touchstart", (ev: any) => this.handleStart(ev), false);
+        element.addEventListener("touchmove", (ev: any) => this.handleMove(ev), false);
+        element.addEventListener("touchend", (ev: any) => this.handleEnd(ev, false), false);
+        element.addEventListener("touchcancel", (ev: any) => this.handleEnd(ev, true), false);
+    }
+
+    // Finger movement in pixels that counts as one cell.
+    private get cell(): number {
+        return Math.max(1, this.cellSize() / this.sensitivity);
+    }
+
+    private tracked(ev: any): TouchPoint {
+        for (var i = 0; i < ev.changedTouches.length; ++i) {
+            if (ev.changedTouches[i].identifier == this.touch) {
+                return ev.changedTouches[i];
+            }
+        }
+        return null;
+    }
+
+    private handleStart(ev: any): void {
+        // No scrolling or zooming while playing.
+        ev.preventDefault();
+        if (this.touch != null) {
+            // Other fingers are ignored, besides for the two finger tap.
+            this.twoFingers = this.twoFingers || (!this.moved && !this.softDrop);
+            return;
+        }
+
+        var point: TouchPoint = ev.changedTouches[0];
+        this.touch = point.identifier;
+        this.startX = this.anchorX = point.clientX;
+        this.startY = point.clientY;
+        this.startTime = Date.now();
+        this.moved = false;
+        this.twoFingers = false;
+    }
+
+    private handleMove(ev: any): void {
+        ev.preventDefault();
+        var point = this.tracked(ev);
+        if (!point)
+            return;
+
+        var cell = this.cell;
+        while (Math.abs(point.clientX - this.anchorX) >= cell) {
+            var direction = point.clientX > this.anchorX ? 1 : -1;
+            var control = direction < 0 ? Control.MoveLeft : Control.MoveRight;
+            this.press(control);
+            this.release(control);
+            this.anchorX += direction * cell;
+            this.moved = true;
+        }
+
+        var down = point.clientY - this.startY;
+        if (!this.softDrop && !this.moved && down >= TouchInput.SOFT_DROP_DISTANCE * cell &&
+            Date.now() - this.startTime > TouchInput.SWIPE_TIME) {
+            this.softDrop = true;
+            this.press(Control.SoftDrop);
+        }
+    }
+
+    private handleEnd(ev: any, cancelled: boolean): void {
+        ev.preventDefault();
+        var point = this.tracked(ev);
+        if (!point)
+            return;
+        this.touch = null;
+
+        if (this.softDrop) {
+            this.softDrop = false;
+            this.release(Control.SoftDrop);
+            return;
+        }
+        if (cancelled || this.moved)
+            return;
+        if (this.twoFingers) {
+            this.tap(Control.Pause);
+            return;
+        }
+
+        var cell = this.cell;
+        var dx = point.clientX - this.startX;
+        var dy = point.clientY - this.startY;
+        var time = Date.now() - this.startTime;
+        if (time <= TouchInput.TAP_TIME && Math.abs(dx) < TouchInput.TAP_DISTANCE * cell &&
+            Math.abs(dy) < TouchInput.TAP_DISTANCE * cell) {
+            this.tap(Control.RotateCW);
+        } else if (time <= TouchInput.SWIPE_TIME && Math.abs(dy) >= TouchInput.SWIPE_DISTANCE * cell &&
+            Math.abs(dy) > Math.abs(dx)) {
+            this.tap(dy > 0 ? Control.HardDrop : Control.Hold);
+        }
+    }
+
+    private tap(control: Control): void {
+        this.press(control);
+        this.release(control);
+    }
+}
+
+// Wires the buttons in the container with a data-control attribute (the name of
+// a Control, e.g. "RotateCW") to the controls. They are held as long as they are touched.
+function bindControlButtons(container: HTMLElement, press: (control: Control) => void, release: (control: Control) => void): void {
+    var buttons = container.querySelectorAll("[data-control]");
+    for (var i = 0; i < buttons.length; ++i) {
+        var button = <HTMLElement> buttons[i];
+        var control: Control = (<any> Control)[button.getAttribute("data-control")];
+        if (control === undefined)
+            throw "Unknown control: " + button.getAttribute("data-control");
+
+        ((button: HTMLElement, control: Control) => {
+            var held = false;
+            var down = (ev: Event) => {
+                ev.preventDefault();
+                if (!held) {
+                    held = true;
+                    press(control);
+                }
+            };
+            var up = (ev: Event) => {
+                ev.preventDefault();
+                if (held) {
+                    held = false;
+                    release(control);
+                }
+            };
+            button.addEventListener("touchstart", down, false);
+            button.addEventListener("touchend", up, false);
+            button.addEventListener("touchcancel", up, false);
+            // Also usable with a mouse.
+            button.addEventListener("mousedown", down, false);
+            button.addEventListener("mouseup", up, false);
+            button.addEventListener("mouseleave", up, false);
+        })(button, control);
+    }
+}
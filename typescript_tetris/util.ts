@@ -0,0 +1,59 @@
+﻿class Vec2 {
+    constructor(public x: number = 0, public y: number = 0) {
+    }
+}
+
+class Vec3 {
+    constructor(public x: number = 0, public y: number = 0, public z: number = 0) {
+    }
+}
+
+class Array2D<T> {
+    private data: T[];
+    private width_: number;
+    private height_: number;
+    
+    constructor(width: number, height: number, init: T = null) {
+        this.data = new Array<T>(width * height);
+        for (var i = 0; i < this.data.length; ++i) {
+            this.data[i] = init;
+        }
+        this.width_ = width;
+        this.height_ = height;
+    }
+
+    get size(): Vec2 {
+        return new Vec2(this.width, this.height);
+    }
+
+    get width(): number {
+        return this.width_;
+    }
+
+    get height(): number {
+        return this.height_;
+    }
+
+    get(x: number, y: number): T {
+        if (x < 0 || x >= this.width) throw "Index out of bounds (" + x + "/" + y + ")";
+        if (y < 0 || y >= this.height) throw "Index out of bounds (" + x + "/" + y + ")";
+        return this.data[y * this.width + x];
+    }
+
+    set(x: number, y: number, value: T) {
+        if (x < 0 || x >= this.width) throw "Index out of bounds (" + x + "/" + y + ")";
+        if (y < 0 || y >= this.height) throw "Index out of bounds (" + x + "/" + y + ")";
+        this.data[y * this.width + x] = value;
+    }
+
+    clone(): Array2D<T> {
+        var result = new Array2D<T>(this.width, this.height);
+        result.data = this.data.slice(0);
+        return result;
+    }
+}
+
+// Deep copy of plain data (anything that survives JSON).
+function cloneData<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,179 @@
+﻿/// <reference path="app.ts" />
+
+// Local versus: two games side by side on one canvas, played on one keyboard
+// and a gamepad each. Both get the same pieces, and the lines one player clears
+// come up as garbage on the field of the other.
+
+class Versus {
+    // By Control, like Controls.DEFAULT_KEYS. Pausing is shared and not bound per player.
+    static KEYS_P1 = [
+        ["KeyA"],
+        ["KeyD"],
+        ["KeyS"],
+        ["KeyW"],
+        ["KeyE"],
+        ["KeyQ"],
+        ["KeyZ"],
+        ["ShiftLeft", "KeyC"],
+        [],
+    ];
+    static KEYS_P2 = [
+        ["ArrowLeft"],
+        ["ArrowRight"],
+        ["ArrowDown"],
+        ["ArrowUp"],
+        ["Period"],
+        ["Comma"],
+        ["Slash"],
+        ["ShiftRight"],
+        [],
+    ];
+    static KEY_PAUSE = ["KeyP", "Escape"];
+
+    games: Game[];
+    private phases: GamePhase[];  // as of the last update, to notice when one side pauses or resumes
+    private wins: number[];
+    private over: boolean;  // the result of the match is shown
+    private view: Viewport;  // the games were placed for this one
+
+    constructor(private renderer: Renderer, rules: GameRules, private audio: AudioSystem) {
+        this.games = [Versus.KEYS_P1, Versus.KEYS_P2].map((keys, i) => {
+            var game = new Game(renderer, rules, null, new Controls(null, keys), audio, true);
+            game.ranked = false;
+            game.background = i == 0;
+            game.gamepad.padIndex = i;
+            return game;
+        });
+        this.games[0].onAttack = (rows) => this.games[1].receiveGarbage(rows);
+        this.games[1].onAttack = (rows) => this.games[0].receiveGarbage(rows);
+        this.wins = [0, 0];
+        this.view = null;
+        this.rematch();
+    }
+
+    // Starts a new match, both sides with the same new seed.
+    rematch(): void {
+        var seed = Prng.randomSeed();
+        this.games.forEach((game) => game.restart(seed));
+        this.phases = this.games.map((game) => game.phase);
+        this.over = false;
+    }
+
+    update(dt: number): void {
+        this.games.forEach((game) => game.update(dt));
+
+        // A pause or resume of one side, e.g. from its gamepad, holds for both.
+        this.games.forEach((game, i) => {
+            var other = this.games[1 - i];
+            if (game.phase != this.phases[i]) {
+                if (game.phase == GamePhase.Paused) {
+                    other.pause();
+                } else if (game.phase == GamePhase.Ready && this.phases[i] == GamePhase.Paused) {
+                    other.resume();
+                }
+            }
+        });
+        this.phases = this.games.map((game) => game.phase);
+
+        if (this.over)
+            return;
+        // The same rules as over the network, see matchWinner.
+        var results = this.games.map((game) => game.phase == GamePhase.GameOver ? game.matchResult : null);
+        var winner = matchWinner(results, this.games[0].mode.rankByTime);
+        if (winner == null)
+            return;
+        this.over = true;
+        if (winner >= 0) {
+            ++this.wins[winner];
+        }
+        this.games.forEach((game, i) => {
+            var result = winner < 0 ? "DRAW" : (winner == i ? "YOU WIN" : "YOU LOSE");
+            game.showResult([result, "", "WINS " + this.wins[i] + ":" + this.wins[1 - i], "", "ENTER TO", "PLAY AGAIN"]);
+        });
+    }
+
+    render(): void {
+        var view = this.renderer.viewport;
+        if (view != this.view) {
+            // Side by side in the middle of the canvas, as large as they fit.
+            var size = Math.min((view.right - view.left) / 2, view.top - view.bottom);
+            this.games[0].setArea(new Vec2(0.5 - size, 0.5 - size / 2), size);
+            this.games[1].setArea(new Vec2(0.5, 0.5 - size / 2), size);
+            this.view = view;
+        }
+        this.games.forEach((game) => game.draw());
+        this.renderer.flush();
+    }
+
+    handleKeypress(ev: KeyboardEvent): void {
+        var code = keyCode(ev);
+        if (Versus.KEY_PAUSE.indexOf(code) != -1) {
+            if (this.games.some((game) => game.phase == GamePhase.Paused)) {
+                this.games.forEach((game) => game.resume());
+            } else {
+                this.games.forEach((game) => game.pause());
+            }
+        } else if (Game.KEY_RESTART.indexOf(code) != -1 &&
+            (this.over || this.games[0].phase == GamePhase.Paused)) {
+            this.rematch();
+        } else if (code == Game.KEY_MUTE) {
+            this.audio.toggleMute();
+        } else {
+            var bound = false;
+            this.games.forEach((game) => {
+                var control = game.controls.keyControl(code);
+                if (control != null) {
+                    bound = true;
+                    if (!ev.repeat) {
+                        game.press(control);
+                    }
+                }
+            });
+            if (!bound) {
+                // Do not prevent the default.
+                return;
+            }
+        }
+        ev.preventDefault();
+    }
+
+    handleKeyup(ev: KeyboardEvent): void {
+        var code = keyCode(ev);
+        this.games.forEach((game) => {
+            var control = game.controls.keyControl(code);
+            if (control != null) {
+                game.release(control);
+                ev.preventDefault();
+            }
+        });
+    }
+
+    handleBlur(): void {
+        this.games.forEach((game) => game.pause());
+    }
+}
+
+// Runs a versus match instead of the single player game, see ?versus in index.html.
+function startVersus(canvas: HTMLCanvasElement, renderer: Renderer, query: { [key: string]: string }, rules: GameRules,
+    audio: AudioSystem): void {
+    var versus = new Versus(renderer, rules, audio);
+    versus.games.forEach((game) => {
+        game.nextQueue = nextQueueFromQuery(query);
+    });
+    if (query["versus"] == "bot") {
+        // The second player is the bot.
+        versus.games[1].toggleAutoplay();
+    }
+    window.onkeydown = versus.handleKeypress.bind(versus);
+    window.onkeyup = versus.handleKeyup.bind(versus);
+    window.onblur = versus.handleBlur.bind(versus);
+    document.getElementById("fullscreen").onclick = () => toggleFullscreen(document.getElementById("game"));
+
+    var loop = new MainLoop(GameEngine.FRAME_TIME, (dt) => versus.update(dt), () => {
+        if (fitCanvas(canvas)) {
+            renderer.resize(canvas.width, canvas.height);
+        }
+        versus.render();
+    });
+    loop.start();
+}
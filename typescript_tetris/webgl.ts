@@ -0,0 +1,325 @@
+﻿/// <reference path="render.ts" />
+
+var VERTEX_SHADER = `
+    precision mediump float;
+
+    attribute vec2 vertexPosition;
+    attribute vec2 vertexTexCoord;
+    attribute vec4 vertexRegion;
+    attribute float vertexAlpha;
+
+    uniform mat3 projectionMatrix;
+
+    varying vec2 texCoord;
+    varying vec4 region;
+    varying float alpha;
+
+    void main() {
+        vec3 position = projectionMatrix * vec3(vertexPosition, 1.0);
+        gl_Position = vec4(position.xy, 0.0, 1.0);
+        texCoord = vertexTexCoord;
+        region = vertexRegion;
+        alpha = vertexAlpha;
+    }
+`;
+
+var FRAGMENT_SHADER = `
+    precision mediump float;
+
+    varying vec2 texCoord;  // in image coordinates, repeats outside of [0; 1]
+    varying vec4 region;  // x, y, width, height of the image in the atlas, width 0 if not loaded
+    varying float alpha;
+
+    uniform sampler2D texture;
+    uniform vec2 halfTexel;
+
+    void main() {
+        if (region.z > 0.0) {
+            // Stay half a texel inside the region so the neighbours do not bleed in.
+            vec2 inner = clamp(fract(texCoord) * region.zw, halfTexel, region.zw - halfTexel);
+            vec4 color = texture2D(texture, region.xy + inner);
+            gl_FragColor = vec4(color.rgb, color.a * alpha);
+        } else {
+            gl_FragColor = vec4(1.0, 0.0, 1.0, 1.0);
+        }
+    }
+`;
+
+var ATTRIBUTE_POSITION = 0;
+var ATTRIBUTE_TEX_COORD = 1;
+var ATTRIBUTE_REGION = 2;
+var ATTRIBUTE_ALPHA = 3;
+
+var UNIFORM_PROJECTION_MATRIX: WebGLUniformLocation;
+var UNIFORM_TEXTURE: WebGLUniformLocation;
+var UNIFORM_HALF_TEXEL: WebGLUniformLocation;
+
+function initWebGl(canvas: HTMLCanvasElement): WebGLRenderingContext {
+    try {
+        return (canvas.getContext("webgl") || canvas.getContext("experimental-webgl"));
+    } catch (e) {
+        return null;
+    }
+}
+
+function compileShader(gl: WebGLRenderingContext, shaderType: number, shaderSource: string): WebGLShader {
+    var shader = gl.createShader(shaderType);
+    gl.shaderSource(shader, shaderSource);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        console.log("Error while compiling shader");
+        console.log(gl.getShaderInfoLog(shader));
+    }
+    return shader;
+}
+
+function initPipeline(gl: WebGLRenderingContext): void {
+    var vertexShader = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+    var fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+    var program = gl.createProgram();
+    gl.attachShader(program, vertexShader);
+    gl.attachShader(program, fragmentShader);
+    gl.bindAttribLocation(program, ATTRIBUTE_POSITION, "vertexPosition");
+    gl.bindAttribLocation(program, ATTRIBUTE_TEX_COORD, "vertexTexCoord");
+    gl.bindAttribLocation(program, ATTRIBUTE_REGION, "vertexRegion");
+    gl.bindAttribLocation(program, ATTRIBUTE_ALPHA, "vertexAlpha");
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        console.log("Error while linking program");
+        console.log(gl.getProgramInfoLog(program));
+    }
+    gl.useProgram(program);
+
+    UNIFORM_PROJECTION_MATRIX = gl.getUniformLocation(program, "projectionMatrix");
+    UNIFORM_TEXTURE = gl.getUniformLocation(program, "texture");
+    UNIFORM_HALF_TEXEL = gl.getUniformLocation(program, "halfTexel");
+    gl.uniform1i(UNIFORM_TEXTURE, 0);
+
+    gl.clearColor(0.5, 0.5, 0.5, 1);
+
+    gl.enable(gl.BLEND);
+    gl.blendEquation(gl.FUNC_ADD);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+}
+
+// Where an image ended up in the atlas.
+interface AtlasRegion {
+    page: AtlasPage;
+    rect: number[];  // x, y, width, height in texture coordinates of the page
+}
+
+// One texture holding many images side by side.
+class AtlasPage {
+    static SIZE = 2048;  // largest texture size every WebGL implementation supports
+    static PADDING = 2;
+    private static count = 0;
+
+    id: number;
+    texture: WebGLTexture;
+    halfTexel: Vec2;
+
+    // Packs the images into as many pages as needed.
+    static pack(gl: WebGLRenderingContext, images: SpriteImage[], regions: AtlasRegion[]): void {
+        images = images.filter((i) => i.loaded);
+        images.sort((a, b) => b.image.height - a.image.height);
+        images.forEach((i) => {
+            if (i.image.width + AtlasPage.PADDING > AtlasPage.SIZE || i.image.height + AtlasPage.PADDING > AtlasPage.SIZE) {
+                throw "Image too large for the texture atlas: " + i.image.src;
+            }
+        });
+
+        while (images.length > 0) {
+            // Shelf packing: fill rows from left to right, the first image of a row is the highest.
+            var placed: SpriteImage[] = [];
+            var positions: Vec2[] = [];
+            var x = 0, y = 0, rowHeight = 0;
+            images = images.filter((i) => {
+                var width = i.image.width + AtlasPage.PADDING;
+                var height = i.image.height + AtlasPage.PADDING;
+                if (x + width > AtlasPage.SIZE) {
+                    x = 0;
+                    y += rowHeight;
+                    rowHeight = 0;
+                }
+                if (y + height > AtlasPage.SIZE)
+                    return true;  // next page
+                placed.push(i);
+                positions.push(new Vec2(x, y));
+                x += width;
+                rowHeight = Math.max(rowHeight, height);
+                return false;
+            });
+
+            var pageHeight = 1;
+            while (pageHeight < y + rowHeight) {
+                pageHeight *= 2;
+            }
+            var page = new AtlasPage(gl, placed, positions, new Vec2(AtlasPage.SIZE, pageHeight));
+            placed.forEach((image, i) => {
+                regions[image.id] = {
+                    page: page,
+                    rect: [
+                        positions[i].x / AtlasPage.SIZE, positions[i].y / pageHeight,
+                        image.image.width / AtlasPage.SIZE, image.image.height / pageHeight,
+                    ],
+                };
+            });
+        }
+    }
+
+    constructor(gl: WebGLRenderingContext, images: SpriteImage[], positions: Vec2[], size: Vec2) {
+        this.id = AtlasPage.count++;
+        this.halfTexel = new Vec2(0.5 / size.x, 0.5 / size.y);
+
+        var canvas = document.createElement("canvas");
+        canvas.width = size.x;
+        canvas.height = size.y;
+        var context = canvas.getContext("2d");
+        images.forEach((image, i) => {
+            context.drawImage(image.image, positions[i].x, positions[i].y);
+        });
+
+        // No mipmaps: they would smear the images into each other.
+        this.texture = gl.createTexture();
+        gl.bindTexture(gl.TEXTURE_2D, this.texture);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, canvas);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    }
+}
+
+// Draws the sprites of a frame with as few draw calls as possible: all images
+// share an atlas texture and the sprites go into one dynamic vertex buffer.
+class WebGlRenderer implements Renderer {
+    static MAX_SPRITES = 4096;  // per draw call
+    static FLOATS_PER_VERTEX = 9;  // x, y, u, v, region x, y, width, height, alpha
+    static FLOATS_PER_SPRITE = 4 * WebGlRenderer.FLOATS_PER_VERTEX;
+    private static NO_REGION = [0, 0, 0, 0];  // drawn in magenta
+
+    private vertexBuffer: WebGLBuffer;
+    private indexBuffer: WebGLBuffer;
+    private data: Float32Array;
+    private queue: SpriteQueue;
+    private regions: AtlasRegion[];  // by image id
+    private packed: number;  // images of SpriteImage.all that went into the atlas
+
+    viewport: Viewport;
+
+    constructor(private gl: WebGLRenderingContext) {
+        initPipeline(gl);
+
+        this.data = new Float32Array(WebGlRenderer.MAX_SPRITES * WebGlRenderer.FLOATS_PER_SPRITE);
+        this.vertexBuffer = gl.createBuffer();
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+        gl.bufferData(gl.ARRAY_BUFFER, this.data, gl.DYNAMIC_DRAW);
+
+        // Two triangles per sprite.
+        var indices = new Uint16Array(WebGlRenderer.MAX_SPRITES * 6);
+        for (var i = 0; i < WebGlRenderer.MAX_SPRITES; ++i) {
+            [0, 1, 2, 2, 1, 3].forEach((corner, j) => {
+                indices[i * 6 + j] = i * 4 + corner;
+            });
+        }
+        this.indexBuffer = gl.createBuffer();
+        gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
+        gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, indices, gl.STATIC_DRAW);
+
+        this.queue = new SpriteQueue();
+        this.regions = [];
+        this.packed = 0;
+        this.resize(gl.canvas.width, gl.canvas.height);
+    }
+
+    resize(width: number, height: number): void {
+        this.viewport = new Viewport(width, height);
+        var v = this.viewport;
+        this.gl.viewport(0, 0, width, height);
+        var projectionMatrix = new Float32Array([
+            // column major
+            2.0 / (v.right - v.left), 0.0, 0.0,
+            0.0, 2.0 / (v.top - v.bottom), 0.0,
+            -(v.right + v.left) / (v.right - v.left), -(v.top + v.bottom) / (v.top - v.bottom), 1.0,
+        ]);
+        this.gl.uniformMatrix3fv(UNIFORM_PROJECTION_MATRIX, false, projectionMatrix);
+    }
+
+    render(sprite: Sprite): void {
+        this.queue.push(sprite);
+    }
+
+    flush(): void {
+        var gl = this.gl;
+
+        // Images are packed once all of them have loaded.
+        if (this.packed < SpriteImage.all.length && SpriteImage.settled()) {
+            AtlasPage.pack(gl, SpriteImage.all.slice(this.packed), this.regions);
+            this.packed = SpriteImage.all.length;
+        }
+
+        var sprites = this.queue.take((image) => this.regions[image.id] ? this.regions[image.id].page.id : -1);
+
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+        gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
+        var stride = WebGlRenderer.FLOATS_PER_VERTEX * 4;
+        gl.enableVertexAttribArray(ATTRIBUTE_POSITION);
+        gl.vertexAttribPointer(ATTRIBUTE_POSITION, 2, gl.FLOAT, false, stride, 0);
+        gl.enableVertexAttribArray(ATTRIBUTE_TEX_COORD);
+        gl.vertexAttribPointer(ATTRIBUTE_TEX_COORD, 2, gl.FLOAT, false, stride, 2 * 4);
+        gl.enableVertexAttribArray(ATTRIBUTE_REGION);
+        gl.vertexAttribPointer(ATTRIBUTE_REGION, 4, gl.FLOAT, false, stride, 4 * 4);
+        gl.enableVertexAttribArray(ATTRIBUTE_ALPHA);
+        gl.vertexAttribPointer(ATTRIBUTE_ALPHA, 1, gl.FLOAT, false, stride, 8 * 4);
+
+        var count = 0;
+        sprites.forEach((sprite, i) => {
+            var region = this.regions[sprite.image.id];
+            this.write(sprite, region ? region.rect : WebGlRenderer.NO_REGION, count++);
+            var next = sprites[i + 1];
+            var page = region ? region.page : null;
+            var nextRegion = next ? this.regions[next.image.id] : null;
+            if (!next || (nextRegion ? nextRegion.page : null) != page || count == WebGlRenderer.MAX_SPRITES) {
+                this.draw(page, count);
+                count = 0;
+            }
+        });
+
+        gl.disableVertexAttribArray(ATTRIBUTE_POSITION);
+        gl.disableVertexAttribArray(ATTRIBUTE_TEX_COORD);
+        gl.disableVertexAttribArray(ATTRIBUTE_REGION);
+        gl.disableVertexAttribArray(ATTRIBUTE_ALPHA);
+    }
+
+    // Puts the four corners of the sprite into data at the given sprite index.
+    private write(sprite: QueuedSprite, rect: number[], index: number): void {
+        var i = index * WebGlRenderer.FLOATS_PER_SPRITE;
+        [
+            [sprite.x0, sprite.y0, sprite.u0, sprite.v1],
+            [sprite.x1, sprite.y0, sprite.u1, sprite.v1],
+            [sprite.x0, sprite.y1, sprite.u0, sprite.v0],
+            [sprite.x1, sprite.y1, sprite.u1, sprite.v0],
+        ].forEach((corner) => {
+            this.data[i++] = corner[0];
+            this.data[i++] = corner[1];
+            this.data[i++] = corner[2];
+            this.data[i++] = corner[3];
+            this.data[i++] = rect[0];
+            this.data[i++] = rect[1];
+            this.data[i++] = rect[2];
+            this.data[i++] = rect[3];
+            this.data[i++] = sprite.alpha;
+        });
+    }
+
+    private draw(page: AtlasPage, count: number): void {
+        var gl = this.gl;
+        gl.activeTexture(gl.TEXTURE0);
+        gl.bindTexture(gl.TEXTURE_2D, page ? page.texture : null);
+        if (page) {
+            gl.uniform2f(UNIFORM_HALF_TEXEL, page.halfTexel.x, page.halfTexel.y);
+        }
+        gl.bufferSubData(gl.ARRAY_BUFFER, 0, this.data.subarray(0, count * WebGlRenderer.FLOATS_PER_SPRITE));
+        gl.drawElements(gl.TRIANGLES, count * 6, gl.UNSIGNED_SHORT, 0);
+    }
+}